@@ -5,6 +5,13 @@ import userChallengeRoutes from "./routes/userChallengeRoutes";
 import habitRoutes from "./routes/habitRoutes";
 import userHabitRoutes from "./routes/userHabitRoutes";
 import userRoutes from "./routes/userRoutes";
+import teamRoutes from "./routes/teamRoutes";
+import routineRoutes from "./routes/routineRoutes";
+import reminderRoutes from "./routes/reminderRoutes";
+import notificationRoutes from "./routes/notificationRoutes";
+import webhookRoutes from "./routes/webhookRoutes";
+import digestRoutes from "./routes/digestRoutes";
+import meRoutes from "./routes/meRoutes";
 import cors from "cors";
 
 // Middleware
@@ -19,6 +26,13 @@ app.use("/api/my-challenges", userChallengeRoutes);
 app.use("/api/habits", habitRoutes);
 app.use("/api/user-habits", userHabitRoutes);
 app.use("/api/users", userRoutes);
+app.use("/api/teams", teamRoutes);
+app.use("/api/routines", routineRoutes);
+app.use("/api/reminders", reminderRoutes);
+app.use("/api/notifications", notificationRoutes);
+app.use("/api/webhooks", webhookRoutes);
+app.use("/api/digests", digestRoutes);
+app.use("/api/me", meRoutes);
 
 // Health check
 app.get("/api/health", (req, res) => {
@@ -1,14 +1,76 @@
 import { Request, Response } from "express";
 import bcrypt from "bcryptjs";
-import User from "../models/User";
-import { AuthRequest, generateToken } from "../middleware/auth";
+import { Types } from "mongoose";
+import User, { IUser } from "../models/User";
+import Session from "../models/Session";
+import PasswordResetToken from "../models/PasswordResetToken";
+import EmailVerificationToken from "../models/EmailVerificationToken";
+import XpEvent from "../models/XpEvent";
+import { AuthRequest } from "../middleware/auth";
+import { createSession, rotateSession, revokeUserSessions } from "../utils/session";
+import { generateRandomToken, hashToken } from "../utils/tokens";
+import { sendMail, appLink } from "../utils/mailer";
+import { getStreakFreezeSummary } from "../utils/streakFreeze";
+import { levelForXp, formatXpEvent } from "../utils/xp";
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from "../utils/pagination";
 import {
   RegisterInput,
   LoginInput,
   UpdateProfileInput,
   ChangePasswordInput,
+  RefreshTokenInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
 } from "../schemas/auth.schema";
 
+const RESET_TOKEN_TTL_MS = 1000 * 60 * 60; // 1 hour
+const VERIFICATION_TOKEN_TTL_MS = 1000 * 60 * 60 * 24; // 24 hours
+
+/** Issues a fresh single-use reset token (invalidating older ones) and emails the link. */
+async function sendPasswordResetEmail(user: IUser) {
+  await PasswordResetToken.deleteMany({ userId: user._id, usedAt: null });
+
+  const token = generateRandomToken();
+  await PasswordResetToken.create({
+    userId: user._id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+  });
+
+  const link = appLink("/reset-password", { token });
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text:
+      `Hi ${user.name},\n\n` +
+      `Use the link below to choose a new password. It expires in 1 hour and can only be used once.\n\n` +
+      `${link}\n\n` +
+      `If you didn't ask for this, you can ignore this email.`,
+  });
+}
+
+/** Issues a fresh verification token (invalidating older ones) and emails the link. */
+async function sendVerificationEmail(user: IUser) {
+  await EmailVerificationToken.deleteMany({ userId: user._id, usedAt: null });
+
+  const token = generateRandomToken();
+  await EmailVerificationToken.create({
+    userId: user._id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS),
+  });
+
+  const link = appLink("/verify-email", { token });
+  await sendMail({
+    to: user.email,
+    subject: "Verify your email address",
+    text:
+      `Hi ${user.name},\n\n` +
+      `Please confirm your email address by opening the link below. It expires in 24 hours.\n\n` +
+      `${link}`,
+  });
+}
+
 // POST /api/auth/register
 export const register = async (req: Request, res: Response) => {
   try {
@@ -36,8 +98,15 @@ export const register = async (req: Request, res: Response) => {
       timezone: timezone ?? "Asia/Kolkata",
     });
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    // A mail outage shouldn't fail registration — the user can ask for a resend
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error("Register verification mail error:", mailError);
+    }
+
+    // Start a session (short-lived access token + rotating refresh token)
+    const { accessToken, refreshToken } = await createSession(user._id, req);
 
     res.status(201).json({
       message: "Registration successful",
@@ -48,9 +117,12 @@ export const register = async (req: Request, res: Response) => {
         role: user.role,
         avatar: user.avatar,
         timezone: user.timezone,
+        emailVerified: user.emailVerified,
+        hideFromLeaderboards: user.hideFromLeaderboards,
         createdAt: user.createdAt,
       },
-      token,
+      token: accessToken,
+      refreshToken,
     });
   } catch (error) {
     console.error("Register error:", error);
@@ -75,8 +147,8 @@ export const login = async (req: Request, res: Response) => {
       return res.status(401).json({ error: "Invalid email or password" });
     }
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    // Start a session (short-lived access token + rotating refresh token)
+    const { accessToken, refreshToken } = await createSession(user._id, req);
 
     res.json({
       message: "Login successful",
@@ -87,9 +159,12 @@ export const login = async (req: Request, res: Response) => {
         role: user.role,
         avatar: user.avatar,
         timezone: user.timezone,
+        emailVerified: user.emailVerified,
+        hideFromLeaderboards: user.hideFromLeaderboards,
         createdAt: user.createdAt,
       },
-      token,
+      token: accessToken,
+      refreshToken,
     });
   } catch (error) {
     console.error("Login error:", error);
@@ -110,8 +185,12 @@ export const getMe = async (req: AuthRequest, res: Response) => {
         role: user.role,
         avatar: user.avatar,
         timezone: user.timezone,
+        emailVerified: user.emailVerified,
+        hideFromLeaderboards: user.hideFromLeaderboards,
         createdAt: user.createdAt,
       },
+      streakFreezes: await getStreakFreezeSummary(user._id, user.streakFreezes ?? 0),
+      level: levelForXp(user.xp ?? 0),
     });
   } catch (error) {
     console.error("GetMe error:", error);
@@ -119,16 +198,49 @@ export const getMe = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// GET /api/auth/me/xp - XP ledger, newest first (?limit=&cursor=)
+export const getXpHistory = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user!;
+    const limit = parseLimit(req.query.limit);
+
+    const filter: Record<string, unknown> = { userId: user._id };
+    if (req.query.cursor !== undefined) {
+      const cursor = typeof req.query.cursor === "string" ? decodeCursor(req.query.cursor) : null;
+      if (!cursor) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      Object.assign(filter, cursorFilter("createdAt", cursor, -1));
+    }
+
+    const events = await XpEvent.find(filter).sort({ createdAt: -1, _id: -1 }).limit(limit + 1);
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+    const last = page[page.length - 1];
+
+    res.json({
+      level: levelForXp(user.xp ?? 0),
+      events: page.map(formatXpEvent),
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+    });
+  } catch (error) {
+    console.error("GetXpHistory error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 // PUT /api/auth/me
 export const updateProfile = async (req: AuthRequest, res: Response) => {
   try {
-    const { name, avatar, timezone } = req.body as UpdateProfileInput;
+    const { name, avatar, timezone, hideFromLeaderboards } = req.body as UpdateProfileInput;
     const userId = req.user!._id;
 
-    const updateData: Partial<{ name: string; avatar: string; timezone: string }> = {};
+    const updateData: Partial<{ name: string; avatar: string; timezone: string; hideFromLeaderboards: boolean }> = {};
     if (name) updateData.name = name;
     if (avatar) updateData.avatar = avatar;
     if (timezone) updateData.timezone = timezone;
+    if (hideFromLeaderboards !== undefined) updateData.hideFromLeaderboards = hideFromLeaderboards;
 
     const user = await User.findByIdAndUpdate(
       userId,
@@ -149,6 +261,8 @@ export const updateProfile = async (req: AuthRequest, res: Response) => {
         role: user.role,
         avatar: user.avatar,
         timezone: user.timezone,
+        emailVerified: user.emailVerified,
+        hideFromLeaderboards: user.hideFromLeaderboards,
         createdAt: user.createdAt,
       },
     });
@@ -183,14 +297,240 @@ export const changePassword = async (req: AuthRequest, res: Response) => {
     // Update password
     await User.findByIdAndUpdate(userId, { password: hashedPassword });
 
-    res.json({ message: "Password changed successfully" });
+    // Sign out everywhere else — a leaked token must not survive a password change
+    const revokedSessions = await revokeUserSessions(userId, req.sessionId);
+
+    res.json({ message: "Password changed successfully", revokedSessions });
   } catch (error) {
     console.error("ChangePassword error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
 
+// POST /api/auth/refresh - Exchange a refresh token for a new token pair
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body as RefreshTokenInput;
+
+    const issued = await rotateSession(refreshToken, req);
+    if (!issued) {
+      return res.status(401).json({ error: "Invalid or expired refresh token" });
+    }
+
+    res.json({
+      message: "Token refreshed",
+      token: issued.accessToken,
+      refreshToken: issued.refreshToken,
+    });
+  } catch (error) {
+    console.error("Refresh error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/auth/logout - Revoke the session a refresh token belongs to
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body as RefreshTokenInput;
 
+    // Idempotent: an unknown or already-revoked token still counts as logged out
+    await Session.updateOne(
+      { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+
+    res.json({ message: "Logged out successfully" });
+  } catch (error) {
+    console.error("Logout error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/auth/sessions - List the user's active sessions
+export const getSessions = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!._id;
+
+    const sessions = await Session.find({
+      userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+
+    res.json({
+      sessions: sessions.map((session) => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === req.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error("GetSessions error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// DELETE /api/auth/sessions/:id - Revoke one of the user's sessions
+export const revokeSession = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!._id;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const session = await Session.findOneAndUpdate(
+      { _id: id, userId, revokedAt: null },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.json({ message: "Session revoked successfully" });
+  } catch (error) {
+    console.error("RevokeSession error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/auth/verify-email?token= - Confirm an email address
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.query;
+    if (!token || typeof token !== "string") {
+      return res.status(400).json({ error: "Verification token is required" });
+    }
+
+    const verificationToken = await EmailVerificationToken.findOneAndUpdate(
+      { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: new Date() } },
+      { $set: { usedAt: new Date() } },
+      { new: true }
+    );
+    if (!verificationToken) {
+      return res.status(400).json({ error: "Invalid or expired verification token" });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      verificationToken.userId,
+      { $set: { emailVerified: true, emailVerifiedAt: new Date() } },
+      { new: true }
+    );
+    if (!user) {
+      return res.status(400).json({ error: "Invalid or expired verification token" });
+    }
+
+    res.json({ message: "Email verified successfully" });
+  } catch (error) {
+    console.error("VerifyEmail error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/auth/verify-email/resend - Send a new verification link
+export const resendVerificationEmail = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user!;
+
+    if (user.emailVerified) {
+      return res.status(400).json({ error: "Email is already verified" });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({ message: "Verification email sent" });
+  } catch (error) {
+    console.error("ResendVerificationEmail error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/auth/forgot-password - Email a reset link
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body as ForgotPasswordInput;
+
+    // The email goes out off the request path: waiting on it (or failing with it) would
+    // let response times and errors tell registered addresses apart
+    const user = await User.findOne({ email });
+    if (user) {
+      sendPasswordResetEmail(user).catch((error) => console.error("ForgotPassword email error:", error));
+    }
+
+    // Same response either way so the endpoint can't be used to probe for accounts
+    res.json({ message: "If an account exists for this email, a reset link has been sent" });
+  } catch (error) {
+    console.error("ForgotPassword error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/auth/reset-password - Set a new password using a reset token
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, newPassword } = req.body as ResetPasswordInput;
+
+    // Consume the token atomically so it can only ever be used once
+    const resetToken = await PasswordResetToken.findOneAndUpdate(
+      { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: new Date() } },
+      { $set: { usedAt: new Date() } },
+      { new: true }
+    );
+    if (!resetToken) {
+      return res.status(400).json({ error: "Invalid or expired reset token" });
+    }
+
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(newPassword, salt);
+
+    // Following the emailed link also proves ownership of the address
+    const user = await User.findByIdAndUpdate(resetToken.userId, {
+      password: hashedPassword,
+      emailVerified: true,
+      $min: { emailVerifiedAt: new Date() },
+    });
+    if (!user) {
+      return res.status(400).json({ error: "Invalid or expired reset token" });
+    }
+
+    // Whoever had the old password may still be signed in somewhere
+    await revokeUserSessions(user._id);
+
+    res.json({ message: "Password reset successfully. Please log in with your new password." });
+  } catch (error) {
+    console.error("ResetPassword error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/auth/admin/users/:id/reset-password (Admin only) - Send a user a reset link
+export const adminSendPasswordReset = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const user = await User.findById(id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    await sendPasswordResetEmail(user);
+
+    res.json({ message: `Password reset link sent to ${user.email}` });
+  } catch (error) {
+    console.error("AdminSendPasswordReset error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
 
 // GET /api/auth/admin/users (Admin only)
 export const adminGetUsers = async (req: AuthRequest, res: Response) => {
@@ -204,6 +544,7 @@ export const adminGetUsers = async (req: AuthRequest, res: Response) => {
         email: user.email,
         role: user.role,
         avatar: user.avatar,
+        emailVerified: user.emailVerified,
         createdAt: user.createdAt,
       })),
     });
@@ -1,7 +1,14 @@
 import { Request, Response } from "express";
-import Challenge from "../models/Challenge";
+import { Types, PipelineStage } from "mongoose";
+import Challenge, { ChallengeVisibility } from "../models/Challenge";
+import ChallengeInvite from "../models/ChallengeInvite";
+import Cohort, { ICohort } from "../models/Cohort";
 import UserChallenge from "../models/UserChallenge";
 import { AuthRequest } from "../middleware/auth";
+import { getChallengeRules } from "../utils/challengeProgress";
+import { parseLimit, parsePage } from "../utils/pagination";
+import { canManageChallenge, canViewChallenge } from "../utils/challengeAccess";
+import { formatCohort } from "../utils/cohort";
 import {
   CreateChallengeInput,
   UpdateChallengeInput,
@@ -12,10 +19,11 @@ export const getAllChallenges = async (req: Request, res: Response) => {
   try {
     const { search, sortBy } = req.query;
 
-    // Build query for search
-    let query: any = {};
+    // Build query for search — private challenges are never listed
+    let query: any = { visibility: { $ne: "private" } };
     if (search && typeof search === 'string') {
       query = {
+        ...query,
         $or: [
           { title: { $regex: search, $options: 'i' } },
           { description: { $regex: search, $options: 'i' } }
@@ -38,13 +46,7 @@ export const getAllChallenges = async (req: Request, res: Response) => {
     const challenges = await Challenge.find(query).sort(sortOptions);
 
     res.json({
-      challenges: challenges.map((challenge) => ({
-        id: challenge._id,
-        title: challenge.title,
-        description: challenge.description,
-        durationDays: challenge.durationDays,
-        createdAt: challenge.createdAt,
-      })),
+      challenges: challenges.map(formatChallenge),
     });
   } catch (error) {
     console.error("GetAllChallenges error:", error);
@@ -52,24 +54,33 @@ export const getAllChallenges = async (req: Request, res: Response) => {
   }
 };
 
-// GET /api/challenges/:id - Get challenge by ID (Public)
-export const getChallengeById = async (req: Request, res: Response) => {
+// GET /api/challenges/owned - Private challenges owned by the current user
+export const getOwnedChallenges = async (req: AuthRequest, res: Response) => {
+  try {
+    const challenges = await Challenge.find({ ownerId: req.user!._id }).sort({ createdAt: -1 });
+
+    res.json({
+      challenges: challenges.map(formatChallenge),
+    });
+  } catch (error) {
+    console.error("GetOwnedChallenges error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/challenges/:id - Get challenge by ID (Public; private ones only for owner / participants)
+export const getChallengeById = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
 
     const challenge = await Challenge.findById(id);
-    if (!challenge) {
+    // Private challenges 404 rather than 403 so their existence isn't revealed
+    if (!challenge || !(await canViewChallenge(req.user, challenge))) {
       return res.status(404).json({ error: "Challenge not found" });
     }
 
     res.json({
-      challenge: {
-        id: challenge._id,
-        title: challenge.title,
-        description: challenge.description,
-        durationDays: challenge.durationDays,
-        createdAt: challenge.createdAt,
-      },
+      challenge: formatChallenge(challenge),
     });
   } catch (error) {
     console.error("GetChallengeById error:", error);
@@ -77,13 +88,20 @@ export const getChallengeById = async (req: Request, res: Response) => {
   }
 };
 
-// POST /api/challenges - Create challenge (Admin only)
+// POST /api/challenges - Create challenge (Admin: public or private; users: private only)
 export const createChallenge = async (req: AuthRequest, res: Response) => {
   try {
-    const { title, description, durationDays } = req.body as CreateChallengeInput;
+    const input = req.body as CreateChallengeInput;
+    const { title, description, durationDays, visibility: requested } = input;
+    const isAdmin = req.user!.role === "admin";
+
+    const visibility = requested ?? (isAdmin ? "public" : "private");
+    if (visibility === "public" && !isAdmin) {
+      return res.status(403).json({ error: "Only admins can create public challenges" });
+    }
 
-    // Check if challenge with same title exists
-    const existingChallenge = await Challenge.findOne({ title });
+    // Check if challenge with same title exists (public titles are global, private ones per owner)
+    const existingChallenge = await Challenge.findOne(titleScope(title, visibility, req.user!._id));
     if (existingChallenge) {
       return res.status(409).json({ error: "Challenge with this title already exists" });
     }
@@ -92,17 +110,14 @@ export const createChallenge = async (req: AuthRequest, res: Response) => {
       title,
       description,
       durationDays,
+      visibility,
+      ...(visibility === "private" && { ownerId: req.user!._id }),
+      ...pickSettings(input),
     });
 
     res.status(201).json({
       message: "Challenge created successfully",
-      challenge: {
-        id: challenge._id,
-        title: challenge.title,
-        description: challenge.description,
-        durationDays: challenge.durationDays,
-        createdAt: challenge.createdAt,
-      },
+      challenge: formatChallenge(challenge),
     });
   } catch (error) {
     console.error("CreateChallenge error:", error);
@@ -110,45 +125,60 @@ export const createChallenge = async (req: AuthRequest, res: Response) => {
   }
 };
 
-// PUT /api/challenges/:id - Update challenge (Admin only)
+// PUT /api/challenges/:id - Update challenge (Admin, or owner of a private challenge)
 export const updateChallenge = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { title, description, durationDays } = req.body as UpdateChallengeInput;
+    const input = req.body as UpdateChallengeInput;
+    const { title, description, durationDays, maxHabits } = input;
 
     const challenge = await Challenge.findById(id);
     if (!challenge) {
       return res.status(404).json({ error: "Challenge not found" });
     }
 
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to update this challenge" });
+    }
+
+    // The schema only compares fields sent together — check the result against what's stored too
+    const nextMaxHabits = maxHabits === undefined ? challenge.maxHabits ?? null : maxHabits;
+    if (nextMaxHabits != null) {
+      if ((input.minHabits ?? challenge.minHabits ?? 1) > nextMaxHabits) {
+        return res.status(400).json({ error: "Minimum habits cannot exceed maximum habits" });
+      }
+      if ((input.templateHabits ?? challenge.templateHabits ?? []).length > nextMaxHabits) {
+        return res.status(400).json({ error: "Template habits cannot exceed maximum habits" });
+      }
+    }
+
     // Check if new title conflicts with existing challenge
     if (title && title !== challenge.title) {
-      const existingChallenge = await Challenge.findOne({ title });
+      const existingChallenge = await Challenge.findOne(
+        titleScope(title, challenge.visibility, challenge.ownerId)
+      );
       if (existingChallenge) {
         return res.status(409).json({ error: "Challenge with this title already exists" });
       }
     }
 
-    const updateData: Partial<{ title: string; description: string; durationDays: number }> = {};
+    // Rule changes apply to existing enrollments from their next evaluation onwards;
+    // template changes only affect people who join afterwards
+    const updateData: Record<string, unknown> = {};
     if (title) updateData.title = title;
     if (description !== undefined) updateData.description = description;
     if (durationDays) updateData.durationDays = durationDays;
+    Object.assign(updateData, pickSettings(input));
 
     const updatedChallenge = await Challenge.findByIdAndUpdate(
       id,
-      { $set: updateData },
+      { $set: updateData, ...(maxHabits === null && { $unset: { maxHabits: 1 } }) },
       { new: true }
     );
 
     res.json({
       message: "Challenge updated successfully",
-      challenge: {
-        id: updatedChallenge!._id,
-        title: updatedChallenge!.title,
-        description: updatedChallenge!.description,
-        durationDays: updatedChallenge!.durationDays,
-        createdAt: updatedChallenge!.createdAt,
-      },
+      challenge: formatChallenge(updatedChallenge!),
     });
   } catch (error) {
     console.error("UpdateChallenge error:", error);
@@ -156,7 +186,7 @@ export const updateChallenge = async (req: AuthRequest, res: Response) => {
   }
 };
 
-// DELETE /api/challenges/:id - Delete challenge (Admin only)
+// DELETE /api/challenges/:id - Delete challenge (Admin, or owner of a private challenge)
 export const deleteChallenge = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
@@ -166,6 +196,10 @@ export const deleteChallenge = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "Challenge not found" });
     }
 
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to delete this challenge" });
+    }
+
     // Check if any users are participating in this challenge
     const activeParticipants = await UserChallenge.countDocuments({
       challengeId: id,
@@ -180,6 +214,8 @@ export const deleteChallenge = async (req: AuthRequest, res: Response) => {
     }
 
     await Challenge.findByIdAndDelete(id);
+    await ChallengeInvite.deleteMany({ challengeId: id });
+    await Cohort.deleteMany({ challengeId: id });
 
     res.json({ message: "Challenge deleted successfully" });
   } catch (error) {
@@ -188,7 +224,8 @@ export const deleteChallenge = async (req: AuthRequest, res: Response) => {
   }
 };
 
-// GET /api/challenges/:id/stats - Get challenge statistics (Admin only)
+// GET /api/challenges/:id/stats - Get challenge statistics (?cohortId= scopes to one cohort)
+// (Admin, or owner of a private challenge)
 export const getChallengeStats = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
@@ -198,24 +235,42 @@ export const getChallengeStats = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "Challenge not found" });
     }
 
-    const [totalParticipants, activeParticipants, completedParticipants, failedParticipants] =
-      await Promise.all([
-        UserChallenge.countDocuments({ challengeId: id }),
-        UserChallenge.countDocuments({ challengeId: id, status: "active" }),
-        UserChallenge.countDocuments({ challengeId: id, status: "completed" }),
-        UserChallenge.countDocuments({ challengeId: id, status: "failed" }),
-      ]);
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to view these statistics" });
+    }
+
+    const cohort = await findScopedCohort(challenge._id, req.query.cohortId);
+    if (cohort === undefined) {
+      return res.status(404).json({ error: "Cohort not found" });
+    }
+
+    const scope = { challengeId: challenge._id, ...(cohort && { cohortId: cohort._id }) };
+    const [
+      totalParticipants,
+      activeParticipants,
+      completedParticipants,
+      failedParticipants,
+      abandonedParticipants,
+    ] = await Promise.all([
+      UserChallenge.countDocuments(scope),
+      UserChallenge.countDocuments({ ...scope, status: "active" }),
+      UserChallenge.countDocuments({ ...scope, status: "completed" }),
+      UserChallenge.countDocuments({ ...scope, status: "failed" }),
+      UserChallenge.countDocuments({ ...scope, status: "abandoned" }),
+    ]);
 
     res.json({
       challenge: {
         id: challenge._id,
         title: challenge.title,
       },
+      cohort: cohort ? formatCohort(cohort) : null,
       stats: {
         totalParticipants,
         activeParticipants,
         completedParticipants,
         failedParticipants,
+        abandonedParticipants,
         completionRate:
           totalParticipants > 0
             ? Math.round((completedParticipants / totalParticipants) * 100)
@@ -226,4 +281,193 @@ export const getChallengeStats = async (req: AuthRequest, res: Response) => {
     console.error("GetChallengeStats error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
-};
\ No newline at end of file
+};
+
+// GET /api/challenges/:id/leaderboard - Ranked participants (?page=&limit=&cohortId=)
+export const getChallengeLeaderboard = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!._id;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge || !(await canViewChallenge(req.user, challenge))) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    const cohort = await findScopedCohort(challenge._id, req.query.cohortId);
+    if (cohort === undefined) {
+      return res.status(404).json({ error: "Cohort not found" });
+    }
+
+    const page = parsePage(req.query.page);
+    const limit = parseLimit(req.query.limit, 20);
+    const rankedStages = buildLeaderboardStages(challenge._id, cohort?._id);
+
+    const [[result], [own]] = await Promise.all([
+      UserChallenge.aggregate([
+        ...rankedStages,
+        {
+          $facet: {
+            entries: [{ $skip: (page - 1) * limit }, { $limit: limit }, ...leaderboardUserStages],
+            total: [{ $count: "count" }],
+          },
+        },
+      ]),
+      // Caller's best-ranked enrollment, if they have one on the board
+      UserChallenge.aggregate([
+        ...rankedStages,
+        { $match: { userId } },
+        { $limit: 1 },
+        ...leaderboardUserStages,
+      ]),
+    ]);
+
+    const total: number = result.total[0]?.count ?? 0;
+    const toEntry = (e: any) => formatLeaderboardEntry(e, userId);
+
+    res.json({
+      challenge: {
+        id: challenge._id,
+        title: challenge.title,
+        durationDays: challenge.durationDays,
+      },
+      cohort: cohort ? formatCohort(cohort) : null,
+      leaderboard: result.entries.map(toEntry),
+      myRank: own ? toEntry(own) : null,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("GetChallengeLeaderboard error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+/** Title uniqueness: public titles are global, private titles are per owner. */
+function titleScope(title: string, visibility: ChallengeVisibility, ownerId?: Types.ObjectId) {
+  return visibility === "private"
+    ? { title, visibility: "private", ownerId }
+    : { title, visibility: { $ne: "private" } };
+}
+
+/**
+ * Resolves an optional ?cohortId= scope: null when absent, undefined when it
+ * doesn't name a cohort of this challenge.
+ */
+async function findScopedCohort(challengeId: Types.ObjectId, raw: unknown): Promise<ICohort | null | undefined> {
+  if (raw === undefined || raw === "") return null;
+  if (typeof raw !== "string" || !Types.ObjectId.isValid(raw)) return undefined;
+  return (await Cohort.findOne({ _id: raw, challengeId })) ?? undefined;
+}
+
+// The rule and template fields a create / update may set; everything else
+// (visibility, ownerId, timestamps) is decided by the handler
+const SETTING_KEYS = [
+  "startingLives",
+  "missedDayResetsStreak",
+  "completionCriteria",
+  "minHabits",
+  "maxHabits",
+  "templateHabits",
+  "cohortOnly",
+  "maxPausedDays",
+] as const;
+
+/** The settings present in the input; a null maxHabits is left to the caller's $unset. */
+function pickSettings(input: CreateChallengeInput | UpdateChallengeInput): Record<string, unknown> {
+  const settings: Record<string, unknown> = {};
+  for (const key of SETTING_KEYS) {
+    const value = input[key];
+    if (value !== undefined && value !== null) settings[key] = value;
+  }
+  return settings;
+}
+
+function formatChallenge(challenge: any) {
+  return {
+    id: challenge._id,
+    title: challenge.title,
+    description: challenge.description,
+    durationDays: challenge.durationDays,
+    visibility: challenge.visibility ?? "public",
+    ownerId: challenge.ownerId ?? null,
+    rules: getChallengeRules(challenge),
+    cohortOnly: challenge.cohortOnly ?? false,
+    templateHabits: (challenge.templateHabits ?? []).map((t: any) => ({
+      id: t._id,
+      title: t.title,
+      required: t.required,
+    })),
+    createdAt: challenge.createdAt,
+  };
+}
+
+/**
+ * Ranks active and completed enrollments by completed days, then current streak,
+ * then lives remaining (optionally within one cohort). Equal scores share a rank ("1, 2, 2, 4"); within a tie the
+ * earlier enrollment is listed first so paging is stable.
+ */
+function buildLeaderboardStages(challengeId: Types.ObjectId, cohortId?: Types.ObjectId): PipelineStage[] {
+  return [
+    { $match: { challengeId, ...(cohortId && { cohortId }), status: { $in: ["active", "completed"] } } },
+    // $rank only accepts a single sort field, so the three keys are folded into one score
+    // (days and streaks stay under 1000, lives under 100)
+    {
+      $addFields: {
+        score: {
+          $add: [
+            { $multiply: [{ $ifNull: ["$progress.completedDays", 0] }, 1e6] },
+            { $multiply: [{ $ifNull: ["$progress.currentStreak", 0] }, 1e3] },
+            { $ifNull: ["$livesRemaining", 0] },
+          ],
+        },
+      },
+    },
+    { $setWindowFields: { sortBy: { score: -1 }, output: { rank: { $rank: {} } } } },
+    { $sort: { rank: 1, createdAt: 1, _id: 1 } },
+    { $unset: "score" },
+  ];
+}
+
+const leaderboardUserStages: PipelineStage.FacetPipelineStage[] = [
+  {
+    $lookup: {
+      from: "users",
+      localField: "userId",
+      foreignField: "_id",
+      as: "user",
+      pipeline: [{ $project: { name: 1, avatar: 1, hideFromLeaderboards: 1 } }],
+    },
+  },
+  { $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+];
+
+function formatLeaderboardEntry(entry: any, viewerId: Types.ObjectId) {
+  const isMe = entry.userId.toString() === viewerId.toString();
+  // Opted-out users keep their rank but are anonymous to everyone except themselves
+  const hidden = !isMe && (!entry.user || entry.user.hideFromLeaderboards);
+
+  return {
+    rank: entry.rank,
+    user: hidden
+      ? { id: null, name: "Anonymous", avatar: null }
+      : { id: entry.userId, name: entry.user.name, avatar: entry.user.avatar ?? null },
+    isMe,
+    status: entry.status,
+    completedDays: entry.progress?.completedDays ?? 0,
+    currentStreak: entry.progress?.currentStreak ?? 0,
+    livesRemaining: entry.livesRemaining,
+    startDate: entry.startDate,
+    completedOn: entry.completedOn ?? null,
+  };
+}
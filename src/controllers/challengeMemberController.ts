@@ -0,0 +1,211 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import Challenge from "../models/Challenge";
+import ChallengeInvite from "../models/ChallengeInvite";
+import UserChallenge from "../models/UserChallenge";
+import { AuthRequest } from "../middleware/auth";
+import { CreateInviteInput } from "../schemas/challenge.schema";
+import { canManageChallenge } from "../utils/challengeAccess";
+import { abandonEnrollment } from "../utils/enrollment";
+import { generateInviteCode } from "../utils/tokens";
+import { appLink } from "../utils/mailer";
+
+// ─── Invites ─────────────────────────────────────────────────────────────────
+
+// POST /api/challenges/:id/invites - Create an invite code (owner / admin)
+export const createInvite = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { expiresInDays, maxUses } = req.body as CreateInviteInput;
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to manage this challenge" });
+    }
+
+    // Codes are short, so retry on the (unlikely) collision with an existing one
+    let invite = null;
+    for (let attempt = 0; !invite && attempt < 5; attempt++) {
+      try {
+        invite = await ChallengeInvite.create({
+          challengeId: challenge._id,
+          code: generateInviteCode(),
+          createdBy: req.user!._id,
+          expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined,
+          maxUses,
+        });
+      } catch (error: any) {
+        if (error?.code !== 11000) throw error;
+      }
+    }
+    if (!invite) {
+      return res.status(500).json({ error: "Could not generate a unique invite code" });
+    }
+
+    res.status(201).json({
+      message: "Invite created successfully",
+      invite: formatInvite(invite),
+    });
+  } catch (error) {
+    console.error("CreateInvite error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/challenges/:id/invites - List invite codes (owner / admin)
+export const getInvites = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to manage this challenge" });
+    }
+
+    const invites = await ChallengeInvite.find({ challengeId: id }).sort({ createdAt: -1 });
+
+    res.json({ invites: invites.map(formatInvite) });
+  } catch (error) {
+    console.error("GetInvites error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// DELETE /api/challenges/:id/invites/:inviteId - Revoke an invite code (owner / admin)
+export const revokeInvite = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, inviteId } = req.params;
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to manage this challenge" });
+    }
+
+    if (!Types.ObjectId.isValid(inviteId)) {
+      return res.status(404).json({ error: "Invite not found" });
+    }
+
+    const invite = await ChallengeInvite.findOneAndUpdate(
+      { _id: inviteId, challengeId: id, revokedAt: null },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+    if (!invite) {
+      return res.status(404).json({ error: "Invite not found" });
+    }
+
+    res.json({ message: "Invite revoked successfully", invite: formatInvite(invite) });
+  } catch (error) {
+    console.error("RevokeInvite error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Members ─────────────────────────────────────────────────────────────────
+
+// GET /api/challenges/:id/members - List participants (owner / admin)
+export const getMembers = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to manage this challenge" });
+    }
+
+    // Owners of private challenges see who joined, not how to contact them — emails are for admins only
+    const isAdmin = req.user!.role === "admin";
+    const enrollments = await UserChallenge.find({ challengeId: id })
+      .populate("userId", isAdmin ? "name avatar email" : "name avatar")
+      .sort({ createdAt: 1 });
+
+    res.json({
+      members: enrollments.map((uc) => {
+        const user = uc.userId as any;
+        return {
+          userChallengeId: uc._id,
+          user: user
+            ? { id: user._id, name: user.name, avatar: user.avatar ?? null, ...(isAdmin && { email: user.email }) }
+            : null,
+          status: uc.status,
+          startDate: uc.startDate,
+          progress: uc.progress,
+          livesRemaining: uc.livesRemaining,
+          joinedAt: uc.createdAt,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("GetMembers error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// DELETE /api/challenges/:id/members/:userId - Remove a participant (owner / admin); past attempts are kept
+export const removeMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, userId } = req.params;
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to manage this challenge" });
+    }
+
+    if (!Types.ObjectId.isValid(userId)) {
+      return res.status(404).json({ error: "Member not found" });
+    }
+
+    const enrollments = await UserChallenge.find({ challengeId: id, userId, status: "active" });
+    if (enrollments.length === 0) {
+      return res.status(404).json({ error: "Member not found" });
+    }
+
+    for (const enrollment of enrollments) {
+      await abandonEnrollment(enrollment, req.user!._id);
+    }
+
+    res.json({ message: "Member removed successfully" });
+  } catch (error) {
+    console.error("RemoveMember error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function formatInvite(invite: any) {
+  const exhausted = invite.maxUses != null && invite.uses >= invite.maxUses;
+  const expired = !!invite.expiresAt && invite.expiresAt <= new Date();
+
+  return {
+    id: invite._id,
+    code: invite.code,
+    link: appLink("/join", { code: invite.code }),
+    uses: invite.uses,
+    maxUses: invite.maxUses ?? null,
+    expiresAt: invite.expiresAt ?? null,
+    revokedAt: invite.revokedAt ?? null,
+    active: !invite.revokedAt && !expired && !exhausted,
+    createdAt: invite.createdAt,
+  };
+}
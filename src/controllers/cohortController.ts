@@ -0,0 +1,216 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import Challenge from "../models/Challenge";
+import Cohort from "../models/Cohort";
+import UserChallenge from "../models/UserChallenge";
+import { AuthRequest } from "../middleware/auth";
+import { CreateCohortInput, UpdateCohortInput } from "../schemas/challenge.schema";
+import { canManageChallenge, canViewChallenge } from "../utils/challengeAccess";
+import { formatCohort, getCohortPhase, minimumEndDate } from "../utils/cohort";
+
+// POST /api/challenges/:id/cohorts - Schedule a cohort (owner / admin)
+export const createCohort = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, registrationOpensAt, registrationClosesAt, startDate, endDate } = req.body as CreateCohortInput;
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to manage this challenge" });
+    }
+
+    const start = new Date(startDate);
+    const dates = {
+      registrationOpensAt: registrationOpensAt ? new Date(registrationOpensAt) : new Date(),
+      registrationClosesAt: registrationClosesAt ? new Date(registrationClosesAt) : start,
+      startDate: start,
+      endDate: endDate ? new Date(endDate) : undefined,
+    };
+
+    const dateError = validateCohortDates(dates, challenge.durationDays);
+    if (dateError) {
+      return res.status(400).json({ error: dateError });
+    }
+
+    const cohort = await Cohort.create({
+      challengeId: challenge._id,
+      name: name.trim(),
+      ...dates,
+      createdBy: req.user!._id,
+    });
+
+    res.status(201).json({
+      message: "Cohort created successfully",
+      cohort: formatCohort(cohort, 0),
+    });
+  } catch (error) {
+    console.error("CreateCohort error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/challenges/:id/cohorts - List a challenge's cohorts (soonest start first)
+export const getCohorts = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge || !(await canViewChallenge(req.user, challenge))) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    const cohorts = await Cohort.find({ challengeId: challenge._id }).sort({ startDate: 1 });
+
+    const counts = await UserChallenge.aggregate([
+      { $match: { cohortId: { $in: cohorts.map((c) => c._id) } } },
+      { $group: { _id: "$cohortId", count: { $sum: 1 } } },
+    ]);
+    const countById = new Map(counts.map((c) => [c._id.toString(), c.count as number]));
+
+    res.json({
+      cohorts: cohorts.map((cohort) => formatCohort(cohort, countById.get(cohort._id.toString()) ?? 0)),
+    });
+  } catch (error) {
+    console.error("GetCohorts error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// PUT /api/challenges/:id/cohorts/:cohortId - Reschedule / rename a cohort (owner / admin)
+export const updateCohort = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, cohortId } = req.params;
+    const input = req.body as UpdateCohortInput;
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to manage this challenge" });
+    }
+
+    if (!Types.ObjectId.isValid(cohortId)) {
+      return res.status(404).json({ error: "Cohort not found" });
+    }
+
+    const cohort = await Cohort.findOne({ _id: cohortId, challengeId: challenge._id });
+    if (!cohort) {
+      return res.status(404).json({ error: "Cohort not found" });
+    }
+
+    // Once the cohort is underway, moving its start would rewrite participants' progress
+    const phase = getCohortPhase(cohort);
+    const startMoved = !!input.startDate && new Date(input.startDate).getTime() !== cohort.startDate.getTime();
+    if (startMoved && (phase === "running" || phase === "ended")) {
+      return res.status(400).json({ error: "Cannot move the start date of a cohort that has started" });
+    }
+
+    const dates = {
+      registrationOpensAt: input.registrationOpensAt ? new Date(input.registrationOpensAt) : cohort.registrationOpensAt,
+      registrationClosesAt: input.registrationClosesAt ? new Date(input.registrationClosesAt) : cohort.registrationClosesAt,
+      startDate: input.startDate ? new Date(input.startDate) : cohort.startDate,
+      endDate: input.endDate === null ? undefined : input.endDate ? new Date(input.endDate) : cohort.endDate,
+    };
+
+    const dateError = validateCohortDates(dates, challenge.durationDays);
+    if (dateError) {
+      return res.status(400).json({ error: dateError });
+    }
+
+    const { endDate, ...requiredDates } = dates;
+    const updatedCohort = await Cohort.findByIdAndUpdate(
+      cohort._id,
+      {
+        $set: { ...requiredDates, ...(input.name && { name: input.name.trim() }), ...(endDate && { endDate }) },
+        ...(!endDate && { $unset: { endDate: 1 } }),
+      },
+      { new: true }
+    );
+
+    // Enrollments carry their own copy of the schedule so progress checks don't need the cohort
+    await UserChallenge.updateMany(
+      { cohortId: cohort._id },
+      {
+        $set: { startDate: dates.startDate, ...(endDate && { endDate }) },
+        ...(!endDate && { $unset: { endDate: 1 } }),
+      }
+    );
+
+    res.json({
+      message: "Cohort updated successfully",
+      cohort: formatCohort(updatedCohort!),
+    });
+  } catch (error) {
+    console.error("UpdateCohort error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// DELETE /api/challenges/:id/cohorts/:cohortId - Delete a cohort nobody has joined (owner / admin)
+export const deleteCohort = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, cohortId } = req.params;
+
+    const challenge = await Challenge.findById(id);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (!canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "Not authorized to manage this challenge" });
+    }
+
+    if (!Types.ObjectId.isValid(cohortId)) {
+      return res.status(404).json({ error: "Cohort not found" });
+    }
+
+    const cohort = await Cohort.findOne({ _id: cohortId, challengeId: challenge._id });
+    if (!cohort) {
+      return res.status(404).json({ error: "Cohort not found" });
+    }
+
+    const participants = await UserChallenge.countDocuments({ cohortId: cohort._id });
+    if (participants > 0) {
+      return res.status(400).json({
+        error: "Cannot delete a cohort with participants",
+        participants,
+      });
+    }
+
+    await Cohort.findByIdAndDelete(cohort._id);
+
+    res.json({ message: "Cohort deleted successfully" });
+  } catch (error) {
+    console.error("DeleteCohort error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function validateCohortDates(
+  dates: { registrationOpensAt: Date; registrationClosesAt: Date; startDate: Date; endDate?: Date },
+  durationDays: number
+): string | null {
+  if (dates.registrationClosesAt <= dates.registrationOpensAt) {
+    return "Registration must close after it opens";
+  }
+  // Late joins are rejected, so registration can't run past the common start
+  if (dates.registrationClosesAt > dates.startDate) {
+    return "Registration must close no later than the start date";
+  }
+  if (dates.endDate && dates.endDate < minimumEndDate(dates.startDate, durationDays)) {
+    return `The end date must leave at least ${durationDays} days after the start date`;
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+import { Response } from "express";
+import User, { IDigestSettings } from "../models/User";
+import { AuthRequest } from "../middleware/auth";
+import { UpdateDigestSettingsInput } from "../schemas/digest.schema";
+import { DEFAULT_TIMEZONE } from "../utils/timezone";
+import { localDayNumber, dateStrToDayNumber, isValidDateStr } from "../utils/habitSchedule";
+import { buildDigest, renderDigest, weeklyPeriod, monthlyPeriod, Digest, DigestPeriod } from "../utils/digest";
+
+// Longest range a preview may cover
+const MAX_PREVIEW_DAYS = 366;
+
+// GET /api/digests/settings - Weekly / monthly digest settings
+export const getDigestSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ settings: formatSettings(req.user!.digestSettings) });
+  } catch (error) {
+    console.error("GetDigestSettings error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// PUT /api/digests/settings - Turn digests on or off and pick the weekly day
+export const updateDigestSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const { weekly, weeklyDay, monthly } = req.body as UpdateDigestSettingsInput;
+
+    const $set: Record<string, unknown> = {};
+    if (weekly !== undefined) $set["digestSettings.weekly"] = weekly;
+    if (weeklyDay !== undefined) $set["digestSettings.weeklyDay"] = weeklyDay;
+    if (monthly !== undefined) $set["digestSettings.monthly"] = monthly;
+
+    const user = await User.findByIdAndUpdate(req.user!._id, { $set }, { new: true });
+
+    res.json({
+      message: "Digest settings updated",
+      settings: formatSettings(user!.digestSettings),
+    });
+  } catch (error) {
+    console.error("UpdateDigestSettings error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/digests/preview - Render a digest without sending it
+// (?kind=weekly|monthly for the latest full period, or ?from=&to= for any range; &format=json|html|text)
+export const previewDigest = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user!;
+    const tz = user.timezone || DEFAULT_TIMEZONE;
+    const { kind, from, to, format = "json" } = req.query;
+
+    if (format !== "json" && format !== "html" && format !== "text") {
+      return res.status(400).json({ error: "format must be one of: json, html, text" });
+    }
+
+    let period: DigestPeriod;
+    let digestKind: Digest["kind"];
+    if (from !== undefined || to !== undefined) {
+      if (typeof from !== "string" || !isValidDateStr(from) || typeof to !== "string" || !isValidDateStr(to)) {
+        return res.status(400).json({ error: "from and to must both be valid dates in YYYY-MM-DD format" });
+      }
+      period = { from: dateStrToDayNumber(from), to: dateStrToDayNumber(to) };
+      if (period.from > period.to) {
+        return res.status(400).json({ error: "from must be a valid date on or before to" });
+      }
+      if (period.to - period.from + 1 > MAX_PREVIEW_DAYS) {
+        return res.status(400).json({ error: `A preview can cover at most ${MAX_PREVIEW_DAYS} days` });
+      }
+      digestKind = "custom";
+    } else {
+      if (kind !== undefined && kind !== "weekly" && kind !== "monthly") {
+        return res.status(400).json({ error: "kind must be 'weekly' or 'monthly'" });
+      }
+      const today = localDayNumber(new Date(), tz);
+      digestKind = kind === "monthly" ? "monthly" : "weekly";
+      period = digestKind === "monthly" ? monthlyPeriod(today) : weeklyPeriod(today);
+    }
+
+    const digest = await buildDigest(user, period, digestKind);
+    const rendered = renderDigest(digest, user);
+
+    if (format === "html") return res.type("html").send(rendered.html);
+    if (format === "text") return res.type("text").send(rendered.text);
+    res.json({ digest, subject: rendered.subject, text: rendered.text, html: rendered.html });
+  } catch (error) {
+    console.error("PreviewDigest error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function formatSettings(settings: IDigestSettings | undefined) {
+  return {
+    weekly: settings?.weekly ?? false,
+    weeklyDay: settings?.weeklyDay ?? 1,
+    monthly: settings?.monthly ?? false,
+  };
+}
@@ -0,0 +1,37 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { toLocalDateStr, DEFAULT_TIMEZONE } from "../utils/timezone";
+import { streamJsonExport, streamCsvExport, streamIcsExport } from "../utils/dataExport";
+
+const CONTENT_TYPES = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  ics: "text/calendar; charset=utf-8",
+} as const;
+
+// GET /api/me/export - Download all of the user's data (?format=json|csv|ics, streamed)
+export const exportMyData = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user!;
+    const format = req.query.format ?? "json";
+    if (format !== "json" && format !== "csv" && format !== "ics") {
+      return res.status(400).json({ error: "format must be one of: json, csv, ics" });
+    }
+
+    const date = toLocalDateStr(new Date(), user.timezone || DEFAULT_TIMEZONE);
+    res.setHeader("Content-Type", CONTENT_TYPES[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="habits-export-${date}.${format}"`);
+    res.setHeader("Cache-Control", "no-store");
+
+    if (format === "json") await streamJsonExport(user, res);
+    else if (format === "csv") await streamCsvExport(user, res);
+    else await streamIcsExport(user, res, req.hostname);
+
+    res.end();
+  } catch (error) {
+    console.error("ExportMyData error:", error);
+    // Once streaming has started the status can't change — cut the download short instead
+    if (res.headersSent) res.destroy(error as Error);
+    else res.status(500).json({ error: "Internal server error" });
+  }
+};
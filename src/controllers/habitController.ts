@@ -1,11 +1,30 @@
 import { Response } from "express";
+import { Types } from "mongoose";
 import Habit from "../models/Habit";
 import HabitLog from "../models/HabitLog";
 import UserChallenge from "../models/UserChallenge";
 import Challenge from "../models/Challenge";
+import Team from "../models/Team";
 import { AuthRequest } from "../middleware/auth";
-import { CreateHabitInput, UpdateHabitInput } from "../schemas/habit.schema";
-import { startOfDayInTZ, todayInTZ, tomorrowInTZ, DEFAULT_TIMEZONE } from "../utils/timezone";
+import { CreateHabitInput, UpdateHabitInput, LogHabitInput } from "../schemas/habit.schema";
+import { UpdateHabitLogInput } from "../schemas/habitLog.schema";
+import {
+  pickLogDetails,
+  buildLogDetailsUpdate,
+  formatLogDetails,
+  parseLogHistoryQuery,
+  paginateLogs,
+} from "../utils/habitLog";
+import { startOfDayInTZ, todayInTZ, tomorrowInTZ, toLocalDateStr, DEFAULT_TIMEZONE } from "../utils/timezone";
+import { getChallengeRules, getDayCompletedUpdate, pickProgressFields } from "../utils/challengeProgress";
+import { evaluateTeamDay } from "../utils/teamProgress";
+import { localDayNumber } from "../utils/habitSchedule";
+import { pausedDaySet } from "../utils/pause";
+import { applyChallengeStreakFreezes, awardStreakFreeze, releaseFrozenDay } from "../utils/streakFreeze";
+import { evaluateAchievements } from "../utils/achievements";
+import { awardXp, reverseXpForLog, XpAwardSource } from "../utils/xp";
+import { getTeamRecipients, notifyChallengeOutcome } from "../utils/notifications";
+import { emitWebhookEvent, emitChallengeOutcome } from "../utils/webhooks";
 
 // POST /api/my-challenges/:userChallengeId/habits - Create habit in an enrollment
 export const createHabit = async (req: AuthRequest, res: Response) => {
@@ -21,7 +40,7 @@ export const createHabit = async (req: AuthRequest, res: Response) => {
     }
 
     if (userChallenge.status !== "active") {
-      return res.status(400).json({ error: "Cannot add habits to a completed or failed challenge" });
+      return res.status(400).json({ error: "Cannot add habits to a completed, failed or abandoned challenge" });
     }
 
     // Block adding habits once the challenge has started — days already counted would become invalid
@@ -31,6 +50,19 @@ export const createHabit = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    const challenge = await Challenge.findById(userChallenge.challengeId);
+    if (!challenge) {
+      return res.status(404).json({ error: "Associated challenge not found" });
+    }
+
+    const { maxHabits } = getChallengeRules(challenge);
+    if (maxHabits !== null) {
+      const habitCount = await Habit.countDocuments({ user_id: userId, userChallenge_id: userChallengeId });
+      if (habitCount >= maxHabits) {
+        return res.status(400).json({ error: `This challenge allows at most ${maxHabits} habits`, maxHabits });
+      }
+    }
+
     // Check for duplicate habit title within this specific enrollment
     const existingHabit = await Habit.findOne({
       user_id: userId,
@@ -56,6 +88,7 @@ export const createHabit = async (req: AuthRequest, res: Response) => {
         title: habit.title,
         challengeId: habit.challenge_id,
         userChallengeId: habit.userChallenge_id,
+        isRequired: habit.isRequired,
         createdAt: habit.createdAt,
       },
     });
@@ -93,6 +126,7 @@ export const getHabits = async (req: AuthRequest, res: Response) => {
     const habitsWithStatus = habits.map(habit => ({
       id: habit._id,
       title: habit.title,
+      isRequired: habit.isRequired,
       completedToday: todayLogs.some(log => log.habit_id.toString() === habit._id.toString()),
       createdAt: habit.createdAt,
     }));
@@ -170,6 +204,10 @@ export const deleteHabit = async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: "Not authorized to delete this habit" });
     }
 
+    if (habit.isRequired) {
+      return res.status(400).json({ error: "This habit is required by the challenge and cannot be deleted" });
+    }
+
     // Delete associated logs
     await HabitLog.deleteMany({ habit_id: id });
 
@@ -188,7 +226,7 @@ export const logHabit = async (req: AuthRequest, res: Response) => {
   try {
     const { id: habitId } = req.params;
     const userId = req.user!._id;
-    const { date } = req.body; // Optional: "YYYY-MM-DD", defaults to today
+    const { date, ...detailsInput } = req.body as LogHabitInput; // date optional: "YYYY-MM-DD", defaults to today
 
     const habit = await Habit.findById(habitId);
     if (!habit) {
@@ -208,7 +246,7 @@ export const logHabit = async (req: AuthRequest, res: Response) => {
 
     if (userChallenge.status !== "active") {
       return res.status(400).json({ 
-        error: "Cannot log habits for a completed or failed challenge",
+        error: "Cannot log habits for a completed, failed or abandoned challenge",
         status: userChallenge.status
       });
     }
@@ -218,10 +256,42 @@ export const logHabit = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "Associated challenge not found" });
     }
 
+    // The challenge may require a minimum number of habits before days can count
+    const { minHabits } = getChallengeRules(challenge);
+    const habitCount = await Habit.countDocuments({ user_id: userId, userChallenge_id: habit.userChallenge_id });
+    if (habitCount < minHabits) {
+      return res.status(400).json({
+        error: `This challenge requires at least ${minHabits} habits before you can start logging`,
+        minHabits,
+        habitCount,
+      });
+    }
+
     // Parse date or use today — anchor to start-of-day in user's timezone
     const tz = req.user!.timezone || DEFAULT_TIMEZONE;
     const logDate = startOfDayInTZ(tz, date ? new Date(date) : new Date());
 
+    // Days outside the enrollment's schedule (e.g. before a cohort starts) can't count
+    if (logDate < startOfDayInTZ(tz, userChallenge.startDate)) {
+      return res.status(400).json({
+        error: "This challenge hasn't started yet",
+        startDate: userChallenge.startDate,
+      });
+    }
+    if (userChallenge.endDate && logDate > startOfDayInTZ(tz, userChallenge.endDate)) {
+      return res.status(400).json({
+        error: "This challenge has already ended",
+        endDate: userChallenge.endDate,
+      });
+    }
+
+    // Paused days cost no lives, so they can't be completed either
+    const { maxPausedDays } = getChallengeRules(challenge);
+    const paused = pausedDaySet(userChallenge.pauses, localDayNumber(new Date(), tz), maxPausedDays);
+    if (paused.has(localDayNumber(logDate, tz))) {
+      return res.status(409).json({ error: "This challenge is paused on that day — resume it to log" });
+    }
+
     // Check if already logged
     const startOfDay = logDate;
     const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000 - 1);
@@ -242,6 +312,20 @@ export const logHabit = async (req: AuthRequest, res: Response) => {
     const habitLog = await HabitLog.create({
       habit_id: habitId,
       dateCompleted: logDate,
+      ...pickLogDetails(detailsInput),
+    });
+
+    // Awards are tied to the log, so unlogging it takes them back
+    const xpSource: XpAwardSource = {
+      logId: habitLog._id,
+      date: toLocalDateStr(logDate, tz),
+      userChallengeId: userChallenge._id,
+    };
+    let xpEarned = await awardXp(userId, "habit_logged", xpSource);
+    await emitWebhookEvent(userId, "habit.logged", {
+      habit: { id: habit._id, type: "challenge", title: habit.title },
+      log: { id: habitLog._id, date: xpSource.date, completed: true },
+      userChallengeId: userChallenge._id,
     });
 
     // Check if all habits completed for the day
@@ -262,6 +346,8 @@ export const logHabit = async (req: AuthRequest, res: Response) => {
     let challengeCompleted = false;
     let challengeFailed = false;
     let livesRemaining = userChallenge.livesRemaining;
+    let teamDayCompleted: boolean | undefined;
+    let streak: number | undefined;
 
     if (allHabitsCompleted) {
       const lastCompleted = userChallenge.progress.lastCompletedDate;
@@ -271,74 +357,119 @@ export const logHabit = async (req: AuthRequest, res: Response) => {
         const lastDay = startOfDayInTZ(tz, new Date(lastCompleted));
         if (lastDay.getTime() === startOfDay.getTime()) {
           // Day already counted — just return the log without touching progress
+          const achievementsEarned = await evaluateAchievements(userId, tz, {
+            trigger: "log",
+            userChallengeId: userChallenge._id,
+          });
           return res.status(201).json({
             message: "Habit logged successfully",
             log: {
               id: habitLog._id,
               habitId: habitLog.habit_id,
               dateCompleted: habitLog.dateCompleted,
+              ...formatLogDetails(habitLog),
             },
             dayCompleted: true,
             challengeCompleted: false,
             challengeFailed: false,
             livesRemaining: userChallenge.livesRemaining,
+            xpEarned,
+            achievementsEarned,
           });
         }
       }
 
-      // Use absolute computation (consistent with getMyChallengeProgress) to avoid double-counting
-      const DAY_MS = 1000 * 60 * 60 * 24;
-      const startDay = startOfDayInTZ(tz, userChallenge.startDate);
-      const daysElapsed = Math.floor((startOfDay.getTime() - startDay.getTime()) / DAY_MS);
+      // A freeze covering the days missed since the last completion keeps them from costing lives;
+      // a day completed after a freeze covered it hands the freeze back
+      if (!userChallenge.teamId) {
+        await applyChallengeStreakFreezes(userChallenge, challenge, tz);
+        const day = toLocalDateStr(startOfDay, tz);
+        if (await releaseFrozenDay(userId, "challenge", userChallenge._id, day)) {
+          userChallenge.frozenDates = userChallenge.frozenDates.filter((d) => d !== day);
+        }
+      }
 
-      const newCompletedDays = userChallenge.progress.completedDays + 1;
-      const totalMissedDays = Math.max(0, daysElapsed - newCompletedDays + 1);
-      const totalLivesRemaining = Math.max(0, 5 - totalMissedDays);
+      // Lives, streak and completion all follow the challenge's own rules
+      const result = getDayCompletedUpdate(userChallenge, challenge, startOfDay, tz);
+      streak = result.updateData["progress.currentStreak"] as number;
+      // The streak only ends on the logged day when it's the latest completion — a backfill earns nothing
+      if (!lastCompleted || startOfDay > startOfDayInTZ(tz, new Date(lastCompleted))) {
+        await awardStreakFreeze(userId, "challenge", userChallenge._id, toLocalDateStr(startOfDay, tz), streak);
+      }
+      xpEarned += await awardXp(userId, "challenge_day_completed", xpSource);
+      await emitWebhookEvent(userId, "challenge.day_completed", {
+        userChallengeId: userChallenge._id,
+        challengeId: challenge._id,
+        challengeTitle: challenge.title,
+        date: xpSource.date,
+        completedDays: result.updateData["progress.completedDays"] ?? null,
+        currentStreak: streak,
+      });
 
-      // Streak always increments on each completed day — missed days cost lives, not streak
-      const newStreak = userChallenge.progress.currentStreak + 1;
+      if (userChallenge.teamId) {
+        // Team members only track their own day count — lives and the outcome are shared by the team
+        await UserChallenge.findByIdAndUpdate(userChallenge._id, pickProgressFields(result.updateData));
+
+        const team = await Team.findById(userChallenge.teamId);
+        if (team) {
+          const teamResult = await evaluateTeamDay(team, challenge, toLocalDateStr(startOfDay, tz));
+          teamDayCompleted = teamResult.teamDayCompleted;
+          challengeCompleted = teamResult.challengeCompleted;
+          challengeFailed = teamResult.challengeFailed;
+          livesRemaining = teamResult.team.livesRemaining;
+        }
+      } else {
+        challengeCompleted = result.challengeCompleted;
+        challengeFailed = result.challengeFailed;
+        livesRemaining = result.livesRemaining;
 
-      challengeFailed = totalLivesRemaining <= 0;
-      if (newStreak >= challenge.durationDays && !challengeFailed) {
-        challengeCompleted = true;
+        await UserChallenge.findByIdAndUpdate(userChallenge._id, result.updateData);
       }
+    }
 
-      livesRemaining = totalLivesRemaining;
-
-      const updateData: any = {
-        "progress.completedDays": newCompletedDays,
-        "progress.currentStreak": newStreak,
-        "progress.lastCompletedDate": logDate,
-        livesRemaining: totalLivesRemaining,
-        missedDays: totalMissedDays,
-      };
-
-      if (challengeCompleted) {
-        updateData.status = "completed";
-        updateData.completedOn = new Date();
-      } else if (challengeFailed) {
-        updateData.status = "failed";
-        updateData.completedOn = new Date();
+    const achievementsEarned = await evaluateAchievements(userId, tz, {
+      trigger: "log",
+      streak,
+      userChallengeId: userChallenge._id,
+    });
+    if (challengeCompleted) {
+      xpEarned += await awardXp(userId, "challenge_completed", xpSource);
+      achievementsEarned.push(...(await evaluateAchievements(userId, tz, {
+        trigger: "challenge_completed",
+        userChallengeId: userChallenge._id,
+      })));
+      if (userChallenge.teamId) {
+        await rewardTeamCompletion(userChallenge.teamId, userId, xpSource);
       }
-
-      await UserChallenge.findByIdAndUpdate(userChallenge._id, updateData);
+    }
+    if (challengeCompleted || challengeFailed) {
+      const recipients = userChallenge.teamId
+        ? await getTeamRecipients(userChallenge.teamId)
+        : [{ userId, userChallengeId: userChallenge._id }];
+      const outcome = challengeCompleted ? "completed" : "failed";
+      await notifyChallengeOutcome(recipients, challenge.title, outcome);
+      await emitChallengeOutcome(recipients, challenge, outcome);
     }
 
     res.status(201).json({
       message: challengeFailed 
         ? "Challenge failed - no lives remaining" 
         : challengeCompleted 
-        ? `Challenge completed - ${challenge.durationDays} day streak achieved!` 
+        ? `Challenge completed - ${challenge.durationDays} ${getChallengeRules(challenge).completionCriteria === "total" ? "days" : "day streak"} achieved!` 
         : "Habit logged successfully",
       log: {
         id: habitLog._id,
         habitId: habitLog.habit_id,
         dateCompleted: habitLog.dateCompleted,
+        ...formatLogDetails(habitLog),
       },
       dayCompleted: allHabitsCompleted,
+      ...(userChallenge.teamId && { teamDayCompleted: teamDayCompleted ?? false }),
       challengeCompleted,
       challengeFailed,
       livesRemaining,
+      xpEarned,
+      achievementsEarned,
     });
   } catch (error) {
     console.error("LogHabit error:", error);
@@ -346,7 +477,98 @@ export const logHabit = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// GET /api/habits/:id/logs - Paginated log history (?from=&to=&order=&limit=&cursor=)
+export const getHabitLogs = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id: habitId } = req.params;
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const habit = await Habit.findById(habitId);
+    if (!habit) {
+      return res.status(404).json({ error: "Habit not found" });
+    }
+
+    if (habit.user_id.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Not authorized to view this habit" });
+    }
+
+    const query = parseLogHistoryQuery(req.query, tz);
+    if ("error" in query) {
+      return res.status(400).json({ error: query.error });
+    }
+
+    const docs = await HabitLog.find({ habit_id: habitId, ...query.filter })
+      .sort({ dateCompleted: query.direction, _id: query.direction })
+      .limit(query.limit + 1);
+
+    const { page, hasMore, nextCursor } = paginateLogs(docs, query.limit);
+
+    res.json({
+      logs: page.map((log) => ({
+        id: log._id,
+        habitId: log.habit_id,
+        date: toLocalDateStr(log.dateCompleted, tz),
+        dateCompleted: log.dateCompleted,
+        ...formatLogDetails(log),
+        updatedAt: log.updatedAt ?? null,
+      })),
+      hasMore,
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("GetHabitLogs error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// PATCH /api/habits/:id/log/:date - Edit the note / mood / energy / evidence of a log
+export const updateHabitLog = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id: habitId, date } = req.params;
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const habit = await Habit.findById(habitId);
+    if (!habit) {
+      return res.status(404).json({ error: "Habit not found" });
+    }
+
+    if (habit.user_id.toString() !== userId.toString()) {
+      return res.status(403).json({ error: "Not authorized to update this habit log" });
+    }
+
+    const startOfDay = startOfDayInTZ(tz, new Date(date));
+    const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000 - 1);
+
+    const { $set, $unset } = buildLogDetailsUpdate(req.body as UpdateHabitLogInput);
+
+    const habitLog = await HabitLog.findOneAndUpdate(
+      { habit_id: habitId, dateCompleted: { $gte: startOfDay, $lte: endOfDay } },
+      { $set: { ...$set, updatedAt: new Date() }, $unset },
+      { new: true }
+    );
+
+    if (!habitLog) {
+      return res.status(404).json({ error: "No log found for this date" });
+    }
 
+    res.json({
+      message: "Habit log updated successfully",
+      log: {
+        id: habitLog._id,
+        habitId: habitLog.habit_id,
+        date: toLocalDateStr(habitLog.dateCompleted, tz),
+        dateCompleted: habitLog.dateCompleted,
+        ...formatLogDetails(habitLog),
+        updatedAt: habitLog.updatedAt,
+      },
+    });
+  } catch (error) {
+    console.error("UpdateHabitLog error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
 
 // DELETE /api/habits/:id/log/:date - Unmark habit for a date
 export const unlogHabit = async (req: AuthRequest, res: Response) => {
@@ -378,9 +600,42 @@ export const unlogHabit = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "No log found for this date" });
     }
 
-    res.json({ message: "Habit log removed successfully" });
+    const xpRemoved = await reverseXpForLog(userId, deletedLog._id);
+    await emitWebhookEvent(userId, "habit.unlogged", {
+      habit: { id: habit._id, type: "challenge", title: habit.title },
+      log: { id: deletedLog._id, date: toLocalDateStr(deletedLog.dateCompleted, req.user!.timezone || DEFAULT_TIMEZONE) },
+      userChallengeId: habit.userChallenge_id,
+    });
+
+    res.json({ message: "Habit log removed successfully", xpRemoved });
   } catch (error) {
     console.error("UnlogHabit error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
-};
\ No newline at end of file
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+/**
+ * A team's completion is mirrored onto every member's enrollment at once. The
+ * member whose log finished it is rewarded by logHabit itself; the others get
+ * the same completion XP and achievements here.
+ */
+async function rewardTeamCompletion(teamId: Types.ObjectId, finisherId: Types.ObjectId, source: XpAwardSource) {
+  const enrollments = await UserChallenge.find({
+    teamId,
+    status: "completed",
+    userId: { $ne: finisherId },
+  }).populate("userId", "timezone");
+
+  for (const enrollment of enrollments) {
+    const member = enrollment.userId as any;
+    if (!member) continue;
+
+    await awardXp(member._id, "challenge_completed", { ...source, userChallengeId: enrollment._id });
+    await evaluateAchievements(member._id, member.timezone || DEFAULT_TIMEZONE, {
+      trigger: "challenge_completed",
+      userChallengeId: enrollment._id,
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import Notification, { NOTIFICATION_TYPES, NotificationType } from "../models/Notification";
+import User from "../models/User";
+import { AuthRequest } from "../middleware/auth";
+import { UpdateNotificationPreferencesInput } from "../schemas/notification.schema";
+import { parseLimit, decodeCursor, encodeCursor, cursorFilter } from "../utils/pagination";
+import { formatNotification } from "../utils/notifications";
+
+// GET /api/notifications - Notifications, newest first (?unread=true&limit=&cursor=)
+export const getNotifications = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!._id;
+    const limit = parseLimit(req.query.limit);
+
+    const filter: Record<string, unknown> = { userId };
+    if (req.query.unread === "true") filter.readAt = null;
+    if (req.query.cursor !== undefined) {
+      const cursor = typeof req.query.cursor === "string" ? decodeCursor(req.query.cursor) : null;
+      if (!cursor) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      Object.assign(filter, cursorFilter("createdAt", cursor, -1));
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find(filter).sort({ createdAt: -1, _id: -1 }).limit(limit + 1),
+      Notification.countDocuments({ userId, readAt: null }),
+    ]);
+    const hasMore = notifications.length > limit;
+    const page = hasMore ? notifications.slice(0, limit) : notifications;
+    const last = page[page.length - 1];
+
+    res.json({
+      notifications: page.map(formatNotification),
+      unreadCount,
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+    });
+  } catch (error) {
+    console.error("GetNotifications error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/notifications/:id/read - Mark one notification as read
+export const markNotificationRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!Types.ObjectId.isValid(id)) {
+      return res.status(404).json({ error: "Notification not found" });
+    }
+
+    const notification = await Notification.findOne({ _id: id, userId: req.user!._id });
+    if (!notification) {
+      return res.status(404).json({ error: "Notification not found" });
+    }
+
+    // Keep the original read time if it was already read
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+
+    res.json({ notification: formatNotification(notification) });
+  } catch (error) {
+    console.error("MarkNotificationRead error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/notifications/read-all - Mark every unread notification as read
+export const markAllNotificationsRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await Notification.updateMany(
+      { userId: req.user!._id, readAt: null },
+      { $set: { readAt: new Date() } }
+    );
+
+    res.json({ message: "All notifications marked as read", updated: result.modifiedCount });
+  } catch (error) {
+    console.error("MarkAllNotificationsRead error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/notifications/preferences - Which notification types are delivered
+export const getNotificationPreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ preferences: buildPreferences(req.user!.mutedNotificationTypes) });
+  } catch (error) {
+    console.error("GetNotificationPreferences error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// PUT /api/notifications/preferences - Turn notification types on or off
+export const updateNotificationPreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    const { preferences } = req.body as UpdateNotificationPreferencesInput;
+
+    const muted = new Set(req.user!.mutedNotificationTypes ?? []);
+    for (const [type, enabled] of Object.entries(preferences) as [NotificationType, boolean][]) {
+      if (enabled) muted.delete(type);
+      else muted.add(type);
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.user!._id,
+      { $set: { mutedNotificationTypes: [...muted] } },
+      { new: true }
+    );
+
+    res.json({
+      message: "Notification preferences updated",
+      preferences: buildPreferences(user!.mutedNotificationTypes),
+    });
+  } catch (error) {
+    console.error("UpdateNotificationPreferences error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function buildPreferences(muted: NotificationType[] | undefined): Record<NotificationType, boolean> {
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, !(muted ?? []).includes(type)])
+  ) as Record<NotificationType, boolean>;
+}
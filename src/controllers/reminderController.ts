@@ -0,0 +1,101 @@
+import { Response } from "express";
+import User, { IReminderSettings } from "../models/User";
+import ReminderDelivery from "../models/ReminderDelivery";
+import { AuthRequest } from "../middleware/auth";
+import { UpdateReminderSettingsInput } from "../schemas/reminder.schema";
+import { parseLimit, decodeCursor, encodeCursor, cursorFilter } from "../utils/pagination";
+
+// GET /api/reminders/settings - Delivery channels, quiet hours and webhook URL
+export const getReminderSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({ settings: formatSettings(req.user!.reminderSettings) });
+  } catch (error) {
+    console.error("GetReminderSettings error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// PUT /api/reminders/settings - Update reminder delivery settings
+export const updateReminderSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const { channels, quietHours, webhookUrl } = req.body as UpdateReminderSettingsInput;
+    const current = req.user!.reminderSettings;
+
+    const nextChannels = channels ?? current?.channels ?? [];
+    const nextWebhookUrl = webhookUrl === undefined ? current?.webhookUrl : webhookUrl;
+    if (nextChannels.includes("webhook") && !nextWebhookUrl) {
+      return res.status(400).json({ error: "A webhook URL is required for the webhook channel" });
+    }
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+    if (channels) $set["reminderSettings.channels"] = channels;
+    if (quietHours === null) $unset["reminderSettings.quietHours"] = 1;
+    else if (quietHours) $set["reminderSettings.quietHours"] = quietHours;
+    if (webhookUrl === null) $unset["reminderSettings.webhookUrl"] = 1;
+    else if (webhookUrl) $set["reminderSettings.webhookUrl"] = webhookUrl;
+
+    const user = await User.findByIdAndUpdate(req.user!._id, { $set, $unset }, { new: true });
+
+    res.json({
+      message: "Reminder settings updated",
+      settings: formatSettings(user!.reminderSettings),
+    });
+  } catch (error) {
+    console.error("UpdateReminderSettings error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/reminders - Reminders delivered in-app, newest first (?limit=&cursor=)
+export const getReminders = async (req: AuthRequest, res: Response) => {
+  try {
+    const limit = parseLimit(req.query.limit);
+
+    const filter: Record<string, unknown> = {
+      userId: req.user!._id,
+      status: "sent",
+      channels: { $elemMatch: { channel: "in_app", ok: true } },
+    };
+    if (req.query.cursor !== undefined) {
+      const cursor = typeof req.query.cursor === "string" ? decodeCursor(req.query.cursor) : null;
+      if (!cursor) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      Object.assign(filter, cursorFilter("createdAt", cursor, -1));
+    }
+
+    const deliveries = await ReminderDelivery.find(filter).sort({ createdAt: -1, _id: -1 }).limit(limit + 1);
+    const hasMore = deliveries.length > limit;
+    const page = hasMore ? deliveries.slice(0, limit) : deliveries;
+    const last = page[page.length - 1];
+
+    res.json({
+      reminders: page.map((delivery) => ({
+        id: delivery._id,
+        targetType: delivery.targetType,
+        targetId: delivery.targetId,
+        date: delivery.date,
+        time: delivery.time,
+        title: delivery.title,
+        body: delivery.body,
+        sentAt: delivery.sentAt,
+      })),
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+    });
+  } catch (error) {
+    console.error("GetReminders error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function formatSettings(settings: IReminderSettings | undefined) {
+  return {
+    channels: settings?.channels ?? ["in_app"],
+    quietHours: settings?.quietHours ?? null,
+    webhookUrl: settings?.webhookUrl ?? null,
+  };
+}
@@ -0,0 +1,365 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import Routine, { IRoutine, IRoutineStep } from "../models/Routine";
+import RoutineCheck from "../models/RoutineCheck";
+import UserHabit, { IUserHabit } from "../models/UserHabit";
+import UserHabitLog from "../models/UserHabitLog";
+import { AuthRequest } from "../middleware/auth";
+import {
+  CreateRoutineInput,
+  UpdateRoutineInput,
+  CheckRoutineInput,
+  RoutineStepInput,
+} from "../schemas/routine.schema";
+import { toLocalDateStr, startOfDayInTZ, DEFAULT_TIMEZONE } from "../utils/timezone";
+import { dateStrToDayNumber, weekdayOf } from "../utils/habitSchedule";
+import { isLogComplete } from "../utils/habitLog";
+import { getPausedDays, recordHabitProgress } from "../utils/userHabitProgress";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// POST /api/routines - Create a routine
+export const createRoutine = async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, description, weekdays, steps } = req.body as CreateRoutineInput;
+    const userId = req.user!._id;
+
+    const stepError = await validateStepHabits(userId, steps);
+    if (stepError) {
+      return res.status(400).json({ error: stepError });
+    }
+
+    const routine = await Routine.create({
+      user_id: userId,
+      name: name.trim(),
+      description,
+      ...(weekdays && { weekdays: [...weekdays].sort((a, b) => a - b) }),
+      steps,
+    });
+
+    res.status(201).json({
+      message: "Routine created successfully",
+      routine: await formatRoutine(routine),
+    });
+  } catch (error) {
+    console.error("CreateRoutine error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/routines - All of the user's routines
+export const getRoutines = async (req: AuthRequest, res: Response) => {
+  try {
+    const routines = await Routine.find({ user_id: req.user!._id }).sort({ createdAt: 1 });
+    res.json({ routines: await Promise.all(routines.map(formatRoutine)) });
+  } catch (error) {
+    console.error("GetRoutines error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/routines/today - Routines that apply today (user's timezone), with each step's status
+export const getTodayRoutines = async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+    const today = toLocalDateStr(new Date(), tz);
+    const weekday = weekdayOf(dateStrToDayNumber(today));
+
+    const routines = await Routine.find({ user_id: userId, weekdays: weekday });
+    const views = await Promise.all(routines.map((routine) => buildDayView(routine, today, tz)));
+
+    // Earliest routine first, by its first step's start time
+    views.sort((a, b) => (a.startTime ?? "").localeCompare(b.startTime ?? ""));
+
+    res.json({ date: today, weekday, routines: views });
+  } catch (error) {
+    console.error("GetTodayRoutines error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/routines/:id - A single routine
+export const getRoutineById = async (req: AuthRequest, res: Response) => {
+  try {
+    const routine = await Routine.findOne({ _id: req.params.id, user_id: req.user!._id });
+    if (!routine) return res.status(404).json({ error: "Routine not found" });
+
+    res.json({ routine: await formatRoutine(routine) });
+  } catch (error) {
+    console.error("GetRoutineById error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// PUT /api/routines/:id - Update a routine (steps are replaced as a whole)
+export const updateRoutine = async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, description, weekdays, steps } = req.body as UpdateRoutineInput;
+    const userId = req.user!._id;
+
+    const routine = await Routine.findOne({ _id: req.params.id, user_id: userId });
+    if (!routine) return res.status(404).json({ error: "Routine not found" });
+
+    if (steps) {
+      const stepError = await validateStepHabits(userId, steps);
+      if (stepError) {
+        return res.status(400).json({ error: stepError });
+      }
+    }
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() };
+    if (name) updateData.name = name.trim();
+    if (description !== undefined) updateData.description = description;
+    if (weekdays) updateData.weekdays = [...weekdays].sort((a, b) => a - b);
+    if (steps) updateData.steps = steps;
+
+    const updated = await Routine.findByIdAndUpdate(routine._id, { $set: updateData }, { new: true });
+
+    res.json({
+      message: "Routine updated successfully",
+      routine: await formatRoutine(updated!),
+    });
+  } catch (error) {
+    console.error("UpdateRoutine error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// DELETE /api/routines/:id - Delete a routine (logged habits are kept)
+export const deleteRoutine = async (req: AuthRequest, res: Response) => {
+  try {
+    const routine = await Routine.findOneAndDelete({ _id: req.params.id, user_id: req.user!._id });
+    if (!routine) return res.status(404).json({ error: "Routine not found" });
+
+    await RoutineCheck.deleteMany({ routineId: routine._id });
+
+    res.json({ message: "Routine deleted successfully" });
+  } catch (error) {
+    console.error("DeleteRoutine error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/routines/:id/check - Check off every step of the routine for a day
+export const checkRoutine = async (req: AuthRequest, res: Response) => {
+  try {
+    const routine = await Routine.findOne({ _id: req.params.id, user_id: req.user!._id });
+    if (!routine) return res.status(404).json({ error: "Routine not found" });
+
+    await checkSteps(req, res, routine, routine.steps);
+  } catch (error) {
+    console.error("CheckRoutine error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/routines/:id/steps/:stepId/check - Check off a single step for a day
+export const checkRoutineStep = async (req: AuthRequest, res: Response) => {
+  try {
+    const routine = await Routine.findOne({ _id: req.params.id, user_id: req.user!._id });
+    if (!routine) return res.status(404).json({ error: "Routine not found" });
+
+    const step = routine.steps.find((s) => s._id.toString() === req.params.stepId);
+    if (!step) return res.status(404).json({ error: "Step not found" });
+
+    await checkSteps(req, res, routine, [step]);
+  } catch (error) {
+    console.error("CheckRoutineStep error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+type StepCheckResult =
+  | { stepId: Types.ObjectId; status: "checked" | "already_done" }
+  | { stepId: Types.ObjectId; status: "skipped"; reason: string };
+
+type HabitProgress = Awaited<ReturnType<typeof recordHabitProgress>>;
+
+/** Shared by the whole-routine and single-step check-offs. */
+async function checkSteps(req: AuthRequest, res: Response, routine: IRoutine, steps: IRoutineStep[]) {
+  const { date } = req.body as CheckRoutineInput;
+  const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+  const today = toLocalDateStr(new Date(), tz);
+  const dateStr = date ?? today;
+
+  if (dateStr > today) {
+    return res.status(400).json({ error: "Cannot check off a future day" });
+  }
+  if (!routine.weekdays.includes(weekdayOf(dateStrToDayNumber(dateStr)))) {
+    return res.status(400).json({ error: "This routine doesn't apply on that day" });
+  }
+
+  const habits = await loadStepHabits(routine);
+  const results: StepCheckResult[] = [];
+  let xpEarned = 0;
+  const achievementsEarned: HabitProgress["achievementsEarned"] = [];
+
+  // In order, so a routine's habits are logged the way the user would tick them off
+  for (const step of steps) {
+    if (!step.userHabitId) {
+      results.push(await checkTextStep(routine, step, dateStr));
+      continue;
+    }
+
+    const habit = habits.get(step.userHabitId.toString());
+    const outcome = await logStepHabit(habit, step, dateStr, tz);
+    results.push(outcome.result);
+    if (outcome.progress) {
+      xpEarned += outcome.progress.xpEarned;
+      achievementsEarned.push(...outcome.progress.achievementsEarned);
+    }
+  }
+
+  res.json({
+    message: "Routine checked off",
+    date: dateStr,
+    results,
+    routine: await buildDayView(routine, dateStr, tz),
+    xpEarned,
+    achievementsEarned,
+  });
+}
+
+async function checkTextStep(routine: IRoutine, step: IRoutineStep, dateStr: string): Promise<StepCheckResult> {
+  try {
+    await RoutineCheck.create({ routineId: routine._id, stepId: step._id, user_id: routine.user_id, date: dateStr });
+    return { stepId: step._id, status: "checked" };
+  } catch (error: any) {
+    if (error?.code === 11000) return { stepId: step._id, status: "already_done" };
+    throw error;
+  }
+}
+
+/**
+ * Logs a habit step's habit for the day — up to its target for quantitative
+ * habits — with the same follow-ups (XP, streak freezes, achievements) as
+ * logging it directly. Days the habit can't be logged are skipped.
+ */
+async function logStepHabit(
+  habit: IUserHabit | undefined,
+  step: IRoutineStep,
+  dateStr: string,
+  tz: string
+): Promise<{ result: StepCheckResult; progress?: HabitProgress }> {
+  const skipped = (reason: string) => ({ result: { stepId: step._id, status: "skipped" as const, reason } });
+
+  if (!habit || habit.isArchived) return skipped("The habit was deleted or archived");
+
+  const day = dateStrToDayNumber(dateStr);
+  if (getPausedDays(habit, tz).has(day)) return skipped("The habit is paused on that day");
+
+  const startOfDay = localDayStart(dateStr, tz);
+  const existing = await UserHabitLog.findOne({
+    userHabit_id: habit._id,
+    dateCompleted: { $gte: startOfDay, $lt: new Date(startOfDay.getTime() + DAY_MS) },
+  });
+  if (existing && isLogComplete(habit, existing)) {
+    return { result: { stepId: step._id, status: "already_done" } };
+  }
+
+  const log = existing
+    ? (await UserHabitLog.findByIdAndUpdate(
+        existing._id,
+        { $set: { value: habit.target, updatedAt: new Date() } },
+        { new: true }
+      ))!
+    : await UserHabitLog.create({ userHabit_id: habit._id, dateCompleted: startOfDay, value: habit.target ?? 1 });
+
+  const progress = await recordHabitProgress(habit, tz, log, true);
+  return { result: { stepId: step._id, status: "checked" }, progress };
+}
+
+/** The routine's steps on a day, with their end times and whether each is done. */
+async function buildDayView(routine: IRoutine, dateStr: string, tz: string) {
+  const habits = await loadStepHabits(routine);
+  const startOfDay = localDayStart(dateStr, tz);
+
+  const [logs, checks] = await Promise.all([
+    UserHabitLog.find({
+      userHabit_id: { $in: [...habits.values()].map((h) => h._id) },
+      dateCompleted: { $gte: startOfDay, $lt: new Date(startOfDay.getTime() + DAY_MS) },
+    }),
+    RoutineCheck.find({ routineId: routine._id, date: dateStr }),
+  ]);
+
+  const steps = routine.steps.map((step) => {
+    const habit = step.userHabitId ? habits.get(step.userHabitId.toString()) : undefined;
+    const completed = step.userHabitId
+      ? !!habit && logs.some((l) => l.userHabit_id.toString() === habit._id.toString() && isLogComplete(habit, l))
+      : checks.some((c) => c.stepId.toString() === step._id.toString());
+
+    return {
+      ...formatStep(step, habit),
+      completed,
+    };
+  });
+
+  const completedSteps = steps.filter((s) => s.completed).length;
+  return {
+    id: routine._id,
+    name: routine.name,
+    description: routine.description ?? null,
+    startTime: steps[0]?.startTime ?? null,
+    endTime: steps[steps.length - 1]?.endTime ?? null,
+    steps,
+    completedSteps,
+    totalSteps: steps.length,
+    completed: steps.length > 0 && completedSteps === steps.length,
+  };
+}
+
+/** The personal habits referenced by a routine's steps, by id. */
+async function loadStepHabits(routine: IRoutine): Promise<Map<string, IUserHabit>> {
+  const ids = routine.steps.filter((s) => s.userHabitId).map((s) => s.userHabitId);
+  const habits = await UserHabit.find({ _id: { $in: ids }, user_id: routine.user_id });
+  return new Map(habits.map((h) => [h._id.toString(), h]));
+}
+
+/** Habit steps must point at the user's own, active habits. */
+async function validateStepHabits(userId: Types.ObjectId, steps: RoutineStepInput[]): Promise<string | null> {
+  const ids = [...new Set(steps.filter((s) => s.userHabitId).map((s) => s.userHabitId!))];
+  if (ids.length === 0) return null;
+
+  const found = await UserHabit.countDocuments({ _id: { $in: ids }, user_id: userId, isArchived: false });
+  return found === ids.length ? null : "Steps can only reference your own active habits";
+}
+
+/** Start of a local calendar day ("YYYY-MM-DD") in `tz`. */
+function localDayStart(dateStr: string, tz: string): Date {
+  return startOfDayInTZ(tz, new Date(dateStr + "T12:00:00.000Z"));
+}
+
+/** "HH:mm" plus a number of minutes, wrapping past midnight. */
+function addMinutes(time: string, minutes: number): string {
+  const [h, m] = time.split(":").map(Number);
+  const total = (((h * 60 + m + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function formatStep(step: IRoutineStep, habit?: IUserHabit | null) {
+  return {
+    id: step._id,
+    type: step.userHabitId ? "habit" : "task",
+    userHabitId: step.userHabitId ?? null,
+    title: habit?.title ?? step.title ?? null,
+    startTime: step.startTime,
+    endTime: addMinutes(step.startTime, step.durationMinutes),
+    durationMinutes: step.durationMinutes,
+  };
+}
+
+async function formatRoutine(routine: IRoutine) {
+  const habits = await loadStepHabits(routine);
+  return {
+    id: routine._id,
+    name: routine.name,
+    description: routine.description ?? null,
+    weekdays: routine.weekdays,
+    steps: routine.steps.map((step) => formatStep(step, step.userHabitId && habits.get(step.userHabitId.toString()))),
+    createdAt: routine.createdAt,
+    updatedAt: routine.updatedAt ?? null,
+  };
+}
@@ -0,0 +1,247 @@
+import { Response } from "express";
+import Challenge from "../models/Challenge";
+import Team, { ITeam } from "../models/Team";
+import UserChallenge from "../models/UserChallenge";
+import { AuthRequest } from "../middleware/auth";
+import { CreateTeamInput, JoinTeamInput } from "../schemas/team.schema";
+import { toLocalDateStr, DEFAULT_TIMEZONE } from "../utils/timezone";
+import { getChallengeRules } from "../utils/challengeProgress";
+import { createEnrollment, abandonEnrollment } from "../utils/enrollment";
+import { canManageChallenge } from "../utils/challengeAccess";
+import { generateInviteCode } from "../utils/tokens";
+import { MAX_TEAM_SIZE, getTeamMemberStatuses, refreshTeamMissedDays } from "../utils/teamProgress";
+import { notify } from "../utils/notifications";
+import { appLink } from "../utils/mailer";
+
+// POST /api/challenges/:id/teams - Start a team for a challenge (the creator joins it)
+export const createTeam = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id: challengeId } = req.params;
+    const { name, startDate } = req.body as CreateTeamInput;
+    const userId = req.user!._id;
+
+    const challenge = await Challenge.findById(challengeId);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (challenge.visibility === "private" && !canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "This challenge is invite-only" });
+    }
+
+    if (challenge.cohortOnly) {
+      return res.status(400).json({ error: "This challenge can only be joined through a cohort" });
+    }
+
+    const existingEnrollment = await UserChallenge.findOne({ userId, challengeId: challenge._id, status: "active" });
+    if (existingEnrollment) {
+      return res.status(409).json({ error: "Already enrolled in this challenge" });
+    }
+
+    // Codes are short, so retry on the (unlikely) collision with an existing one
+    let team: ITeam | null = null;
+    for (let attempt = 0; !team && attempt < 5; attempt++) {
+      try {
+        team = await Team.create({
+          challengeId: challenge._id,
+          name: name.trim(),
+          ownerId: userId,
+          memberIds: [userId],
+          code: generateInviteCode(),
+          timezone: req.user!.timezone || DEFAULT_TIMEZONE,
+          startDate: startDate ? new Date(startDate) : new Date(),
+          status: "active",
+          livesRemaining: getChallengeRules(challenge).startingLives,
+        });
+      } catch (error: any) {
+        if (error?.code !== 11000) throw error;
+      }
+    }
+    if (!team) {
+      return res.status(500).json({ error: "Could not generate a unique team code" });
+    }
+
+    const { userChallenge } = await createEnrollment(userId, challenge, team.startDate, { teamId: team._id });
+
+    res.status(201).json({
+      message: "Team created successfully",
+      team: formatTeam(team),
+      userChallengeId: userChallenge._id,
+    });
+  } catch (error) {
+    console.error("CreateTeam error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/teams/join - Join a team with its code (before the team's first completed day)
+export const joinTeam = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = req.body as JoinTeamInput;
+    const userId = req.user!._id;
+
+    const team = await Team.findOne({ code: code.trim().toUpperCase() });
+    if (!team) {
+      return res.status(404).json({ error: "Invalid team code" });
+    }
+
+    const challenge = await Challenge.findById(team.challengeId);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    if (team.memberIds.some((id) => id.toString() === userId.toString())) {
+      return res.status(409).json({ error: "Already a member of this team" });
+    }
+
+    const existingEnrollment = await UserChallenge.findOne({ userId, challengeId: challenge._id, status: "active" });
+    if (existingEnrollment) {
+      return res.status(409).json({ error: "Already enrolled in this challenge" });
+    }
+
+    // Claim a seat atomically so the size limit holds under concurrent joins
+    const claimed = await Team.findOneAndUpdate(
+      {
+        _id: team._id,
+        status: "active",
+        "progress.completedDays": 0,
+        missedDays: 0,
+        [`memberIds.${MAX_TEAM_SIZE - 1}`]: { $exists: false },
+      },
+      { $addToSet: { memberIds: userId } },
+      { new: true }
+    );
+    if (!claimed) {
+      return res.status(409).json({
+        error: team.status !== "active" || team.progress.completedDays > 0 || team.missedDays > 0
+          ? "This team has already started"
+          : `Teams are limited to ${MAX_TEAM_SIZE} members`,
+      });
+    }
+
+    const { userChallenge } = await createEnrollment(userId, challenge, claimed.startDate, { teamId: claimed._id });
+
+    for (const memberId of claimed.memberIds) {
+      if (memberId.toString() === userId.toString()) continue;
+      await notify(memberId, {
+        type: "team_member_joined",
+        title: `${req.user!.name} joined ${claimed.name}`,
+        body: `${req.user!.name} joined your team for ${challenge.title}.`,
+        link: appLink(`/teams/${claimed._id}`),
+        data: { teamId: claimed._id, userId },
+      });
+    }
+
+    res.status(201).json({
+      message: "Successfully joined the team",
+      team: formatTeam(claimed),
+      userChallengeId: userChallenge._id,
+    });
+  } catch (error) {
+    console.error("JoinTeam error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/teams/:teamId - Shared progress and which members have completed today (members only)
+export const getTeamProgress = async (req: AuthRequest, res: Response) => {
+  try {
+    const { teamId } = req.params;
+    const userId = req.user!._id;
+
+    let team = await Team.findOne({ _id: teamId, memberIds: userId }).populate("challengeId");
+    if (!team) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+
+    const challenge = team.challengeId as any;
+
+    // Shared lives are charged for missed days here too, like the individual progress view
+    team = (await refreshTeamMissedDays(team, challenge ?? {})) as typeof team;
+
+    const tz = team.timezone || DEFAULT_TIMEZONE;
+    const today = toLocalDateStr(new Date(), tz);
+    const members = await getTeamMemberStatuses(team, today);
+
+    res.json({
+      team: formatTeam(team),
+      challenge: challenge
+        ? {
+            id: challenge._id,
+            title: challenge.title,
+            description: challenge.description,
+            durationDays: challenge.durationDays,
+            rules: getChallengeRules(challenge),
+          }
+        : null,
+      today,
+      members: members.map((member) => ({
+        userId: member.userId,
+        name: member.name,
+        avatar: member.avatar,
+        isOwner: member.userId.toString() === team!.ownerId.toString(),
+        habitsTotal: member.habitsTotal,
+        habitsCompleted: member.habitsCompleted,
+        completedToday: member.completed,
+      })),
+      completedTodayCount: members.filter((m) => m.completed).length,
+      teamCompletedToday: members.length > 0 && members.every((m) => m.completed),
+    });
+  } catch (error) {
+    console.error("GetTeamProgress error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// DELETE /api/teams/:teamId/leave - Leave a team before its first completed day
+export const leaveTeam = async (req: AuthRequest, res: Response) => {
+  try {
+    const { teamId } = req.params;
+    const userId = req.user!._id;
+
+    const team = await Team.findOne({ _id: teamId, memberIds: userId });
+    if (!team) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+
+    // Once the team is underway, leaving would change the bar for everyone mid-challenge
+    if (team.progress.completedDays > 0 || team.missedDays > 0) {
+      return res.status(409).json({ error: "Cannot leave a team that has already started" });
+    }
+
+    const userChallenge = await UserChallenge.findOne({ userId, teamId: team._id, status: "active" });
+    if (userChallenge) {
+      await abandonEnrollment(userChallenge);
+    } else {
+      await Team.updateOne({ _id: team._id }, { $pull: { memberIds: userId } });
+    }
+
+    res.json({ message: "Successfully left the team" });
+  } catch (error) {
+    console.error("LeaveTeam error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function formatTeam(team: ITeam) {
+  const challenge = team.challengeId as any;
+  return {
+    id: team._id,
+    challengeId: challenge?._id ?? team.challengeId,
+    name: team.name,
+    code: team.code,
+    ownerId: team.ownerId,
+    memberCount: team.memberIds.length,
+    maxMembers: MAX_TEAM_SIZE,
+    timezone: team.timezone,
+    startDate: team.startDate,
+    status: team.status,
+    progress: team.progress,
+    livesRemaining: team.livesRemaining,
+    missedDays: team.missedDays,
+    completedOn: team.completedOn,
+    createdAt: team.createdAt,
+  };
+}
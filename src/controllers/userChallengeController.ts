@@ -1,18 +1,33 @@
 import { Response } from "express";
-import Challenge from "../models/Challenge";
-import UserChallenge from "../models/UserChallenge";
+import Challenge, { IChallenge } from "../models/Challenge";
+import ChallengeInvite from "../models/ChallengeInvite";
+import UserChallenge, { CHALLENGE_STATUSES, ChallengeStatus } from "../models/UserChallenge";
+import Team, { ITeam } from "../models/Team";
+import Cohort, { ICohort } from "../models/Cohort";
 import Habit from "../models/Habit";
 import HabitLog from "../models/HabitLog";
 import { AuthRequest } from "../middleware/auth";
-import { JoinChallengeInput } from "../schemas/userChallenge.schema";
-import { startOfDayInTZ, todayInTZ, tomorrowInTZ, DEFAULT_TIMEZONE } from "../utils/timezone";
+import { JoinChallengeInput, JoinByCodeInput, RestartChallengeInput } from "../schemas/userChallenge.schema";
+import { StartPauseInput } from "../schemas/pause.schema";
+import { SetRemindersInput } from "../schemas/reminder.schema";
+import { todayInTZ, tomorrowInTZ, DEFAULT_TIMEZONE } from "../utils/timezone";
+import { getMissedDayUpdate, getChallengeRules } from "../utils/challengeProgress";
+import { createEnrollment, abandonEnrollment } from "../utils/enrollment";
+import { canManageChallenge, canViewChallenge } from "../utils/challengeAccess";
+import { refreshTeamMissedDays } from "../utils/teamProgress";
+import { applyChallengeStreakFreezes } from "../utils/streakFreeze";
+import { isRegistrationOpen } from "../utils/cohort";
+import { localDayNumber } from "../utils/habitSchedule";
+import { planPause, findOpenPause, resumePauseUpdate, buildPauseSummary } from "../utils/pause";
+import { notify, notifyMissedDayUpdate } from "../utils/notifications";
+import { emitChallengeOutcome } from "../utils/webhooks";
+import { appLink } from "../utils/mailer";
 
 // POST /api/challenges/:id/join - Join a challenge
 export const joinChallenge = async (req: AuthRequest, res: Response) => {
   try {
     const { id: challengeId } = req.params;
-    const userId = req.user!._id;
-    const { startDate } = req.body as JoinChallengeInput;
+    const { startDate, cohortId } = req.body as JoinChallengeInput;
 
     // Check if challenge exists
     const challenge = await Challenge.findById(challengeId);
@@ -20,95 +35,119 @@ export const joinChallenge = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "Challenge not found" });
     }
 
-    // Check if already enrolled
-    const existingEnrollment = await UserChallenge.findOne({ userId, challengeId });
-    if (existingEnrollment && existingEnrollment.status !== "failed" && existingEnrollment.status !== "completed") {
-      return res.status(409).json({ 
-        error: "Already enrolled in this challenge",
-        userChallenge: {
-          id: existingEnrollment._id,
-          status: existingEnrollment.status,
-          progress: existingEnrollment.progress,
-          livesRemaining: existingEnrollment.livesRemaining,
-          missedDays: existingEnrollment.missedDays,
-        }
-      });
+    // Private challenges are joined through an invite code (owners/admins excepted)
+    if (challenge.visibility === "private" && !canManageChallenge(req.user, challenge)) {
+      return res.status(403).json({ error: "This challenge is invite-only" });
     }
 
-    // Create enrollment with 5 lives
-    const userChallenge = await UserChallenge.create({
-      userId,
-      challengeId,
-      startDate: startDate ? new Date(startDate) : new Date(),
-      status: "active",
-      progress: {
-        completedDays: 0,
-        currentStreak: 0,
-      },
-      livesRemaining: 5,
-      missedDays: 0,
-    });
+    await enroll(req, res, challenge, startDate, cohortId);
+  } catch (error) {
+    console.error("JoinChallenge error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
 
-    res.status(201).json({
-      message: "Successfully joined the challenge",
-      userChallenge: {
-        id: userChallenge._id,
-        challengeId: userChallenge.challengeId,
-        startDate: userChallenge.startDate,
-        status: userChallenge.status,
-        progress: userChallenge.progress,
-        livesRemaining: userChallenge.livesRemaining,
-        missedDays: userChallenge.missedDays,
-        createdAt: userChallenge.createdAt,
-      },
-      challenge: {
-        id: challenge._id,
-        title: challenge.title,
-        description: challenge.description,
-        durationDays: challenge.durationDays,
+// POST /api/challenges/join-by-code - Join a (private) challenge with an invite code
+export const joinChallengeByCode = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code, startDate, cohortId } = req.body as JoinByCodeInput;
+    const userId = req.user!._id;
+
+    const invite = await ChallengeInvite.findOne({ code: code.trim().toUpperCase() });
+    if (!invite || invite.revokedAt || (invite.expiresAt && invite.expiresAt <= new Date())) {
+      return res.status(404).json({ error: "Invalid or expired invite code" });
+    }
+
+    const challenge = await Challenge.findById(invite.challengeId);
+    if (!challenge) {
+      return res.status(404).json({ error: "Invalid or expired invite code" });
+    }
+
+    const existingEnrollment = await UserChallenge.findOne({ userId, challengeId: challenge._id, status: "active" });
+    if (existingEnrollment) {
+      return res.status(409).json({ error: "Already enrolled in this challenge" });
+    }
+
+    // Check the cohort before using up the invite
+    const cohortCheck = await resolveCohort(challenge, startDate, cohortId);
+    if ("error" in cohortCheck) {
+      return res.status(cohortCheck.status).json({ error: cohortCheck.error });
+    }
+
+    // Claim a use atomically so maxUses can't be exceeded by concurrent joins
+    const claimed = await ChallengeInvite.findOneAndUpdate(
+      {
+        _id: invite._id,
+        $or: [{ maxUses: null }, { $expr: { $lt: ["$uses", "$maxUses"] } }],
       },
-    });
+      { $inc: { uses: 1 } }
+    );
+    if (!claimed) {
+      return res.status(410).json({ error: "This invite code has reached its usage limit" });
+    }
+
+    // The use only counts once the enrollment went through — hand it back otherwise
+    try {
+      await enroll(req, res, challenge, startDate, cohortId);
+    } finally {
+      if (res.statusCode !== 201) {
+        await ChallengeInvite.updateOne({ _id: invite._id }, { $inc: { uses: -1 } });
+      }
+    }
+
+    // Let whoever shared the code know it was used
+    if (res.statusCode === 201 && invite.createdBy.toString() !== userId.toString()) {
+      await notify(invite.createdBy, {
+        type: "invite_accepted",
+        title: `${req.user!.name} joined ${challenge.title}`,
+        body: `${req.user!.name} joined with your invite code ${invite.code}.`,
+        link: appLink(`/challenges/${challenge._id}`),
+        data: { challengeId: challenge._id, inviteId: invite._id, userId },
+      });
+    }
   } catch (error) {
-    console.error("JoinChallenge error:", error);
+    console.error("JoinChallengeByCode error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
 
-// DELETE /api/challenges/:id/leave - Leave a challenge
+// DELETE /api/challenges/:id/leave - Leave a challenge (the attempt is kept as "abandoned")
 export const leaveChallenge = async (req: AuthRequest, res: Response) => {
   try {
     const { id: challengeId } = req.params;
     const userId = req.user!._id;
 
-    const userChallenge = await UserChallenge.findOne({ userId, challengeId });
+    const userChallenge = await UserChallenge.findOne({ userId, challengeId, status: "active" });
     if (!userChallenge) {
       return res.status(404).json({ error: "Not enrolled in this challenge" });
     }
 
-    // Delete habit logs for user's habits in this enrollment
-    const userHabits = await Habit.find({ user_id: userId, userChallenge_id: userChallenge._id });
-    const habitIds = userHabits.map(h => h._id);
-    await HabitLog.deleteMany({ habit_id: { $in: habitIds } });
-
-    // Delete user's habits for this enrollment
-    await Habit.deleteMany({ userChallenge_id: userChallenge._id });
-
-    // Delete enrollment
-    await UserChallenge.findByIdAndDelete(userChallenge._id);
+    // Habits and logs stay with the abandoned enrollment as part of the user's history
+    await abandonEnrollment(userChallenge);
 
-    res.json({ message: "Successfully left the challenge" });
+    res.json({
+      message: "Successfully left the challenge",
+      userChallenge: { id: userChallenge._id, status: "abandoned" },
+    });
   } catch (error) {
     console.error("LeaveChallenge error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
 
-// GET /api/my-challenges - Get user's enrolled challenges
+// GET /api/my-challenges - Get user's enrollments, past attempts included (?status=active|completed|failed|abandoned)
 export const getMyChallenges = async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!._id;
+    const { status } = req.query;
+
+    if (status !== undefined && !CHALLENGE_STATUSES.includes(status as ChallengeStatus)) {
+      return res.status(400).json({
+        error: `status must be one of: ${CHALLENGE_STATUSES.join(", ")}`,
+      });
+    }
 
-    const userChallenges = await UserChallenge.find({ userId })
+    const userChallenges = await UserChallenge.find({ userId, ...(status !== undefined && { status }) })
       .populate("challengeId")
       .sort({ createdAt: -1 });
 
@@ -122,19 +161,28 @@ export const getMyChallenges = async (req: AuthRequest, res: Response) => {
 
         return {
           id: uc._id,
-          challenge: {
-            id: challenge._id,
-            title: challenge.title,
-            description: challenge.description,
-            durationDays: challenge.durationDays,
-          },
+          // Past attempts outlive their challenge when it's deleted
+          challenge: challenge
+            ? {
+                id: challenge._id,
+                title: challenge.title,
+                description: challenge.description,
+                durationDays: challenge.durationDays,
+              }
+            : null,
+          teamId: uc.teamId ?? null,
+          cohortId: uc.cohortId ?? null,
           startDate: uc.startDate,
+          endDate: uc.endDate ?? null,
           status: uc.status,
+          attempt: uc.attempt ?? 1,
+          previousAttemptId: uc.previousAttemptId ?? null,
           progress: uc.progress,
           livesRemaining: uc.livesRemaining,
           missedDays: uc.missedDays,
           habitCount,
           completedOn: uc.completedOn,
+          abandonedAt: uc.abandonedAt ?? null,
           createdAt: uc.createdAt,
         };
       })
@@ -163,50 +211,36 @@ export const getMyChallengeProgress = async (req: AuthRequest, res: Response) =>
     const challenge = userChallenge.challengeId as any;
 
     // ── Detect and persist pending missed days (idempotent) ────────────────
-    if (userChallenge.status === "active") {
-      const tz = req.user!.timezone || DEFAULT_TIMEZONE;
-      const today = todayInTZ(tz);
-
-      const DAY_MS = 1000 * 60 * 60 * 24;
-      const startDay = startOfDayInTZ(tz, userChallenge.startDate);
-
-      // Total full days elapsed since start (today excluded — not yet over)
-      const daysElapsed = Math.floor((today.getTime() - startDay.getTime()) / DAY_MS);
-
-      // missedDays = elapsed past days - completions that happened on past days
-      // If today was already completed, exclude it from completedDays since today hasn't elapsed yet
-      const lastCompleted = userChallenge.progress.lastCompletedDate;
-      let completedDaysForPast = userChallenge.progress.completedDays;
-      if (lastCompleted) {
-        const lastDay = startOfDayInTZ(tz, new Date(lastCompleted));
-        if (lastDay.getTime() === today.getTime()) {
-          completedDaysForPast -= 1;
-        }
+    // The background sweep does the same once a day; this keeps the view fresh in between.
+    // Team members share the team's lives, so the check runs against the team instead.
+    let team: ITeam | null = userChallenge.teamId ? await Team.findById(userChallenge.teamId) : null;
+    if (team) {
+      team = await refreshTeamMissedDays(team, challenge ?? {});
+      if (team.status !== userChallenge.status) {
+        userChallenge = (await UserChallenge.findById(userChallenge._id).populate("challengeId"))!;
       }
-
-      const totalMissedDays = Math.max(0, daysElapsed - completedDaysForPast);
-      const totalLivesRemaining = Math.max(0, 5 - totalMissedDays);
-      const failed = totalLivesRemaining <= 0;
-
-      // Only write if something actually changed
-      if (
-        totalMissedDays !== userChallenge.missedDays ||
-        totalLivesRemaining !== userChallenge.livesRemaining ||
-        failed
-      ) {
-        const updateData: any = {
-          missedDays: totalMissedDays,
-          livesRemaining: totalLivesRemaining,
-        };
-        if (failed) {
-          updateData.status = "failed";
-          updateData.completedOn = new Date();
-        }
+    } else {
+      // Freezes are only previewed here — logging and the daily sweep spend them
+      await applyChallengeStreakFreezes(userChallenge, challenge ?? {}, req.user!.timezone || DEFAULT_TIMEZONE, new Date(), {
+        preview: true,
+      });
+      const missedDayUpdate = getMissedDayUpdate(
+        userChallenge,
+        (userChallenge.challengeId as any) ?? {},
+        req.user!.timezone || DEFAULT_TIMEZONE
+      );
+      if (missedDayUpdate) {
+        const livesBefore = userChallenge.livesRemaining;
         userChallenge = (await UserChallenge.findByIdAndUpdate(
           userChallenge._id,
-          updateData,
+          missedDayUpdate,
           { new: true }
         ).populate("challengeId"))!;
+        const recipients = [{ userId, userChallengeId: userChallenge._id }];
+        await notifyMissedDayUpdate(recipients, challenge?.title ?? "your challenge", livesBefore, missedDayUpdate);
+        if (missedDayUpdate.status === "failed") {
+          await emitChallengeOutcome(recipients, challenge ?? {}, "failed");
+        }
       }
     }
     // ────────────────────────────────────────────────────────────────────────
@@ -226,6 +260,7 @@ export const getMyChallengeProgress = async (req: AuthRequest, res: Response) =>
     const habitsWithStatus = habits.map(habit => ({
       id: habit._id,
       title: habit.title,
+      isRequired: habit.isRequired,
       completedToday: todayLogs.some(log => log.habit_id.toString() === habit._id.toString()),
       createdAt: habit.createdAt,
     }));
@@ -233,19 +268,44 @@ export const getMyChallengeProgress = async (req: AuthRequest, res: Response) =>
     res.json({
       userChallenge: {
         id: userChallenge._id,
+        cohortId: userChallenge.cohortId ?? null,
         startDate: userChallenge.startDate,
+        endDate: userChallenge.endDate ?? null,
         status: userChallenge.status,
+        attempt: userChallenge.attempt ?? 1,
+        previousAttemptId: userChallenge.previousAttemptId ?? null,
         progress: userChallenge.progress,
-        livesRemaining: userChallenge.livesRemaining,
-        missedDays: userChallenge.missedDays,
+        // Team members draw on the team's shared pool of lives
+        livesRemaining: team ? team.livesRemaining : userChallenge.livesRemaining,
+        missedDays: team ? team.missedDays : userChallenge.missedDays,
+        frozenDates: userChallenge.frozenDates ?? [],
         completedOn: userChallenge.completedOn,
+        abandonedAt: userChallenge.abandonedAt ?? null,
+        reminderTimes: userChallenge.reminderTimes ?? [],
+        pauses: buildPauseSummary(
+          userChallenge.pauses,
+          localDayNumber(new Date(), tz2),
+          getChallengeRules(challenge ?? {}).maxPausedDays
+        ),
       },
-      challenge: {
-        id: challenge._id,
-        title: challenge.title,
-        description: challenge.description,
-        durationDays: challenge.durationDays,
+      team: team && {
+        id: team._id,
+        name: team.name,
+        memberCount: team.memberIds.length,
+        status: team.status,
+        progress: team.progress,
+        livesRemaining: team.livesRemaining,
+        missedDays: team.missedDays,
       },
+      challenge: challenge
+        ? {
+            id: challenge._id,
+            title: challenge.title,
+            description: challenge.description,
+            durationDays: challenge.durationDays,
+            rules: getChallengeRules(challenge),
+          }
+        : null,
       habits: habitsWithStatus,
       todayCompleted: habitsWithStatus.length > 0 && habitsWithStatus.every(h => h.completedToday),
     });
@@ -253,4 +313,319 @@ export const getMyChallengeProgress = async (req: AuthRequest, res: Response) =>
     console.error("GetMyChallengeProgress error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
-};
\ No newline at end of file
+};
+
+// POST /api/my-challenges/:userChallengeId/restart - Start a fresh attempt with the same habits
+export const restartChallenge = async (req: AuthRequest, res: Response) => {
+  try {
+    const { userChallengeId } = req.params;
+    const { startDate } = req.body as RestartChallengeInput;
+    const userId = req.user!._id;
+
+    const previous = await UserChallenge.findOne({ _id: userChallengeId, userId });
+    if (!previous) {
+      return res.status(404).json({ error: "Not enrolled in this challenge" });
+    }
+
+    if (previous.status === "active") {
+      return res.status(400).json({ error: "This attempt is still active — leave it before restarting" });
+    }
+
+    const challenge = await Challenge.findById(previous.challengeId);
+    if (!challenge) {
+      return res.status(404).json({ error: "Challenge not found" });
+    }
+
+    // Removed members need a new invite; private challenges are otherwise restarted only by current participants
+    if (previous.removedAt) {
+      return res.status(403).json({ error: "You were removed from this challenge" });
+    }
+    if (challenge.visibility === "private" && !(await canViewChallenge(req.user, challenge))) {
+      return res.status(403).json({ error: "This challenge is invite-only" });
+    }
+
+    // Cohort-only challenges are restarted by joining a later cohort
+    if (challenge.cohortOnly) {
+      return res.status(400).json({ error: "This challenge can only be joined through a cohort" });
+    }
+
+    const existingEnrollment = await UserChallenge.findOne({ userId, challengeId: challenge._id, status: "active" });
+    if (existingEnrollment) {
+      return res.status(409).json({
+        error: "Already enrolled in this challenge",
+        userChallenge: { id: existingEnrollment._id, status: existingEnrollment.status },
+      });
+    }
+
+    // Restarts are always individual attempts, even when the previous one was with a team
+    const { userChallenge, habits } = await createEnrollment(
+      userId,
+      challenge,
+      startDate ? new Date(startDate) : new Date(),
+      { restartOf: previous }
+    );
+
+    res.status(201).json({
+      message: "Challenge restarted",
+      userChallenge: {
+        id: userChallenge._id,
+        challengeId: userChallenge.challengeId,
+        attempt: userChallenge.attempt,
+        previousAttemptId: userChallenge.previousAttemptId,
+        startDate: userChallenge.startDate,
+        status: userChallenge.status,
+        progress: userChallenge.progress,
+        livesRemaining: userChallenge.livesRemaining,
+        missedDays: userChallenge.missedDays,
+        createdAt: userChallenge.createdAt,
+      },
+      habits: habits.map(habit => ({
+        id: habit._id,
+        title: habit.title,
+        isRequired: habit.isRequired,
+        createdAt: habit.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("RestartChallenge error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/my-challenges/:userChallengeId/pause - Pause an enrollment (sick days, travel, …)
+export const pauseChallenge = async (req: AuthRequest, res: Response) => {
+  try {
+    const { userChallengeId } = req.params;
+    const { reason, until } = req.body as StartPauseInput;
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const userChallenge = await UserChallenge.findOne({ _id: userChallengeId, userId }).populate("challengeId");
+    if (!userChallenge) {
+      return res.status(404).json({ error: "Not enrolled in this challenge" });
+    }
+
+    if (userChallenge.status !== "active") {
+      return res.status(400).json({ error: "Only active enrollments can be paused" });
+    }
+
+    // Team members share one pool of lives, so one member can't opt out of days on their own
+    if (userChallenge.teamId) {
+      return res.status(400).json({ error: "Team enrollments cannot be paused" });
+    }
+
+    const { maxPausedDays } = getChallengeRules((userChallenge.challengeId as any) ?? {});
+    if (maxPausedDays === 0) {
+      return res.status(400).json({ error: "This challenge does not allow pausing" });
+    }
+
+    const habitIds = await Habit.find({ userChallenge_id: userChallenge._id }).distinct("_id");
+    const loggedToday = !!(await HabitLog.exists({
+      habit_id: { $in: habitIds },
+      dateCompleted: { $gte: todayInTZ(tz), $lt: tomorrowInTZ(tz) },
+    }));
+
+    const todayNum = localDayNumber(new Date(), tz);
+    const plan = planPause(userChallenge.pauses, todayNum, { until, loggedToday, maxDays: maxPausedDays });
+    if ("error" in plan) {
+      return res.status(400).json({ error: plan.error });
+    }
+
+    const updated = await UserChallenge.findByIdAndUpdate(
+      userChallenge._id,
+      { $push: { pauses: { ...plan, reason } } },
+      { new: true }
+    );
+
+    res.status(201).json({
+      message: "Challenge paused",
+      pauses: buildPauseSummary(updated!.pauses, todayNum, maxPausedDays),
+    });
+  } catch (error) {
+    console.error("PauseChallenge error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/my-challenges/:userChallengeId/resume - End the current (or cancel a scheduled) pause
+export const resumeChallenge = async (req: AuthRequest, res: Response) => {
+  try {
+    const { userChallengeId } = req.params;
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const userChallenge = await UserChallenge.findOne({ _id: userChallengeId, userId }).populate("challengeId");
+    if (!userChallenge) {
+      return res.status(404).json({ error: "Not enrolled in this challenge" });
+    }
+
+    const { maxPausedDays } = getChallengeRules((userChallenge.challengeId as any) ?? {});
+    const todayNum = localDayNumber(new Date(), tz);
+    const open = findOpenPause(userChallenge.pauses, todayNum, maxPausedDays);
+    if (!open) {
+      return res.status(404).json({ error: "This enrollment is not paused" });
+    }
+
+    const updated = await UserChallenge.findOneAndUpdate(
+      { _id: userChallenge._id, "pauses._id": open.pause._id },
+      resumePauseUpdate(open.pause, todayNum),
+      { new: true }
+    );
+
+    res.json({
+      message: "Challenge resumed",
+      pauses: buildPauseSummary(updated?.pauses ?? userChallenge.pauses, todayNum, maxPausedDays),
+    });
+  } catch (error) {
+    console.error("ResumeChallenge error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/my-challenges/:userChallengeId/pauses - Pause state, allowance and history
+export const getChallengePauses = async (req: AuthRequest, res: Response) => {
+  try {
+    const { userChallengeId } = req.params;
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const userChallenge = await UserChallenge.findOne({ _id: userChallengeId, userId }).populate("challengeId");
+    if (!userChallenge) {
+      return res.status(404).json({ error: "Not enrolled in this challenge" });
+    }
+
+    const { maxPausedDays } = getChallengeRules((userChallenge.challengeId as any) ?? {});
+    res.json({
+      pauses: buildPauseSummary(userChallenge.pauses, localDayNumber(new Date(), tz), maxPausedDays),
+    });
+  } catch (error) {
+    console.error("GetChallengePauses error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// PUT /api/my-challenges/:userChallengeId/reminders - Set daily reminder times (local "HH:mm")
+export const setChallengeReminders = async (req: AuthRequest, res: Response) => {
+  try {
+    const { userChallengeId } = req.params;
+    const { reminderTimes } = req.body as SetRemindersInput;
+
+    const userChallenge = await UserChallenge.findOneAndUpdate(
+      { _id: userChallengeId, userId: req.user!._id },
+      { reminderTimes: [...reminderTimes].sort() },
+      { new: true }
+    );
+    if (!userChallenge) {
+      return res.status(404).json({ error: "Not enrolled in this challenge" });
+    }
+
+    res.json({
+      message: "Reminders updated",
+      reminderTimes: userChallenge.reminderTimes,
+    });
+  } catch (error) {
+    console.error("SetChallengeReminders error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Resolves the cohort a join targets. Cohort participants all start on the
+ * cohort's date, so a custom start date is rejected, as are joins outside the
+ * registration window; cohort-only challenges can't be joined without one.
+ */
+async function resolveCohort(
+  challenge: IChallenge,
+  startDate?: string,
+  cohortId?: string
+): Promise<{ cohort: ICohort | null } | { status: number; error: string }> {
+  if (!cohortId) {
+    return challenge.cohortOnly
+      ? { status: 400, error: "This challenge can only be joined through a cohort" }
+      : { cohort: null };
+  }
+
+  const cohort = await Cohort.findOne({ _id: cohortId, challengeId: challenge._id });
+  if (!cohort) {
+    return { status: 404, error: "Cohort not found" };
+  }
+  if (startDate) {
+    return { status: 400, error: "Cohort participants start on the cohort's start date" };
+  }
+
+  const now = new Date();
+  if (now < cohort.registrationOpensAt) {
+    return { status: 400, error: "Registration for this cohort hasn't opened yet" };
+  }
+  if (!isRegistrationOpen(cohort, now)) {
+    return { status: 400, error: "Registration for this cohort has closed" };
+  }
+  return { cohort };
+}
+
+/** Enrolls the current user (unless already active in this challenge) and sends the 201 response. */
+async function enroll(req: AuthRequest, res: Response, challenge: IChallenge, startDate?: string, cohortId?: string) {
+  const userId = req.user!._id;
+
+  // Check if already enrolled
+  const existingEnrollment = await UserChallenge.findOne({ userId, challengeId: challenge._id, status: "active" });
+  if (existingEnrollment) {
+    return res.status(409).json({
+      error: "Already enrolled in this challenge",
+      userChallenge: {
+        id: existingEnrollment._id,
+        status: existingEnrollment.status,
+        progress: existingEnrollment.progress,
+        livesRemaining: existingEnrollment.livesRemaining,
+        missedDays: existingEnrollment.missedDays,
+      },
+    });
+  }
+
+  const cohortCheck = await resolveCohort(challenge, startDate, cohortId);
+  if ("error" in cohortCheck) {
+    return res.status(cohortCheck.status).json({ error: cohortCheck.error });
+  }
+  const { cohort } = cohortCheck;
+
+  // Create enrollment with a full set of lives and the template habits
+  const { userChallenge, habits } = await createEnrollment(
+    userId,
+    challenge,
+    startDate ? new Date(startDate) : new Date(),
+    { cohort: cohort ?? undefined }
+  );
+
+  res.status(201).json({
+    message: "Successfully joined the challenge",
+    userChallenge: {
+      id: userChallenge._id,
+      challengeId: userChallenge.challengeId,
+      cohortId: userChallenge.cohortId ?? null,
+      attempt: userChallenge.attempt,
+      previousAttemptId: userChallenge.previousAttemptId ?? null,
+      startDate: userChallenge.startDate,
+      endDate: userChallenge.endDate ?? null,
+      status: userChallenge.status,
+      progress: userChallenge.progress,
+      livesRemaining: userChallenge.livesRemaining,
+      missedDays: userChallenge.missedDays,
+      createdAt: userChallenge.createdAt,
+    },
+    habits: habits.map(habit => ({
+      id: habit._id,
+      title: habit.title,
+      isRequired: habit.isRequired,
+      createdAt: habit.createdAt,
+    })),
+    challenge: {
+      id: challenge._id,
+      title: challenge.title,
+      description: challenge.description,
+      durationDays: challenge.durationDays,
+      rules: getChallengeRules(challenge),
+    },
+  });
+}
@@ -1,11 +1,24 @@
 import { Response } from "express";
 import UserHabit from "../models/UserHabit";
-import UserHabitLog from "../models/UserHabitLog";
+import UserHabitLog, { IUserHabitLog } from "../models/UserHabitLog";
+import Routine from "../models/Routine";
 import { AuthRequest } from "../middleware/auth";
 import {
   CreateUserHabitInput,
   UpdateUserHabitInput,
+  HabitScheduleInput,
+  LogUserHabitInput,
 } from "../schemas/userHabit.schema";
+import { UpdateHabitLogInput } from "../schemas/habitLog.schema";
+import { StartPauseInput } from "../schemas/pause.schema";
+import {
+  pickLogDetails,
+  buildLogDetailsUpdate,
+  formatLogDetails,
+  parseLogHistoryQuery,
+  paginateLogs,
+  isLogComplete,
+} from "../utils/habitLog";
 import {
   toLocalDateStr,
   todayInTZ,
@@ -13,68 +26,37 @@ import {
   startOfDayInTZ,
   DEFAULT_TIMEZONE,
 } from "../utils/timezone";
+import {
+  HabitSchedule,
+  DAILY_SCHEDULE,
+  getHabitSchedule,
+  localDayNumber,
+  dayNumberToDateStr,
+  dateStrToDayNumber,
+  weekStartOf,
+  isDueToday,
+  summarizeRange,
+  completionRate,
+} from "../utils/habitSchedule";
+import { planPause, findOpenPause, resumePauseUpdate, buildPauseSummary } from "../utils/pause";
+import { reverseXpForLog } from "../utils/xp";
+import { emitWebhookEvent } from "../utils/webhooks";
+import {
+  computeStreaks,
+  toCompletedDays,
+  getPausedDays,
+  getStreakExcusedDays,
+  recordHabitProgress,
+} from "../utils/userHabitProgress";
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
-/** Compute streak info from a sorted (asc) list of completion dates, relative to `tz` */
-function computeStreaks(
-  dates: Date[],
-  tz: string
-): {
-  currentStreak: number;
-  longestStreak: number;
-  lastCompletedDate: Date | null;
-} {
-  if (dates.length === 0) {
-    return { currentStreak: 0, longestStreak: 0, lastCompletedDate: null };
-  }
-
-  // Deduplicate to one entry per LOCAL calendar day in the user's timezone
-  // (critical: toDay() uses UTC midnight which maps IST-midnight logs to the wrong UTC date)
-  const days = [
-    ...new Map(
-      dates.map((d) => [toLocalDateStr(d, tz), startOfDayInTZ(tz, d)])
-    ).values(),
-  ].sort((a, b) => a.getTime() - b.getTime());
-
-  let longestStreak = 1;
-  let tempStreak = 1;
-
-  for (let i = 1; i < days.length; i++) {
-    const diff =
-      (days[i].getTime() - days[i - 1].getTime()) / (1000 * 60 * 60 * 24);
-    if (diff === 1) {
-      tempStreak++;
-      longestStreak = Math.max(longestStreak, tempStreak);
-    } else {
-      tempStreak = 1;
-    }
-  }
-
-  // Current streak: count backwards from today (in user's timezone)
-  const today = todayInTZ(tz);
-  const lastDay = days[days.length - 1];
-  const lastCompletedDate = lastDay;
-
-  // If last completion is not today or yesterday, streak is 0
-  const lastDiff =
-    (today.getTime() - lastDay.getTime()) / (1000 * 60 * 60 * 24);
-  if (lastDiff > 1) {
-    return { currentStreak: 0, longestStreak, lastCompletedDate };
-  }
-
-  let currentStreak = 1;
-  for (let i = days.length - 2; i >= 0; i--) {
-    const diff =
-      (days[i + 1].getTime() - days[i].getTime()) / (1000 * 60 * 60 * 24);
-    if (diff === 1) {
-      currentStreak++;
-    } else {
-      break;
-    }
+/** Interval schedules count from an anchor day — default it to today in the user's timezone. */
+function normalizeSchedule(input: HabitScheduleInput | HabitSchedule, tz: string): HabitSchedule {
+  if (input.type === "interval" && !input.anchorDate) {
+    return { ...input, anchorDate: toLocalDateStr(new Date(), tz) };
   }
-
-  return { currentStreak, longestStreak, lastCompletedDate };
+  return input;
 }
 
 // ─── CRUD ────────────────────────────────────────────────────────────────────
@@ -83,7 +65,8 @@ function computeStreaks(
 export const createUserHabit = async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!._id;
-    const { title, description, color } = req.body as CreateUserHabitInput;
+    const { title, description, color, schedule, target, unit, reminderTimes } = req.body as CreateUserHabitInput;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
 
     // Duplicate check (case-insensitive, non-archived only — enforced by partial index too)
     const existing = await UserHabit.findOne({
@@ -95,7 +78,16 @@ export const createUserHabit = async (req: AuthRequest, res: Response) => {
       return res.status(409).json({ error: "You already have a habit with this title" });
     }
 
-    const habit = await UserHabit.create({ user_id: userId, title, description, color });
+    const habit = await UserHabit.create({
+      user_id: userId,
+      title,
+      description,
+      color,
+      schedule: normalizeSchedule(schedule ?? DAILY_SCHEDULE, tz),
+      target,
+      unit,
+      reminderTimes: reminderTimes ? [...reminderTimes].sort() : [],
+    });
 
     res.status(201).json({
       message: "Habit created successfully",
@@ -138,12 +130,19 @@ export const getUserHabitById = async (req: AuthRequest, res: Response) => {
     const today = todayInTZ(tz);
     const tomorrow = tomorrowInTZ(tz);
 
-    const completedToday = !!(await UserHabitLog.findOne({
+    const todayLog = await UserHabitLog.findOne({
       userHabit_id: id,
       dateCompleted: { $gte: today, $lt: tomorrow },
-    }));
+    });
+    const completedToday = !!todayLog && isLogComplete(habit, todayLog);
 
-    res.json({ habit: { ...formatHabit(habit), completedToday } });
+    res.json({
+      habit: {
+        ...formatHabit(habit),
+        completedToday,
+        ...(habit.target && { todayValue: todayLog?.value ?? 0 }),
+      },
+    });
   } catch (error) {
     console.error("GetUserHabitById error:", error);
     res.status(500).json({ error: "Internal server error" });
@@ -155,7 +154,8 @@ export const updateUserHabit = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const userId = req.user!._id;
-    const { title, description, color } = req.body as UpdateUserHabitInput;
+    const { title, description, color, schedule, target, unit, reminderTimes } = req.body as UpdateUserHabitInput;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
 
     const habit = await UserHabit.findOne({ _id: id, user_id: userId });
     if (!habit) return res.status(404).json({ error: "Habit not found" });
@@ -174,7 +174,17 @@ export const updateUserHabit = async (req: AuthRequest, res: Response) => {
 
     const updated = await UserHabit.findByIdAndUpdate(
       id,
-      { $set: { ...(title && { title }), ...(description !== undefined && { description }), ...(color !== undefined && { color }) } },
+      {
+        $set: {
+          ...(title && { title }),
+          ...(description !== undefined && { description }),
+          ...(color !== undefined && { color }),
+          ...(schedule && { schedule: normalizeSchedule(schedule, tz) }),
+          ...(target !== undefined && { target }),
+          ...(unit !== undefined && { unit }),
+          ...(reminderTimes && { reminderTimes: [...reminderTimes].sort() }),
+        },
+      },
       { new: true }
     );
 
@@ -196,6 +206,8 @@ export const deleteUserHabit = async (req: AuthRequest, res: Response) => {
 
     await UserHabitLog.deleteMany({ userHabit_id: id });
     await UserHabit.findByIdAndDelete(id);
+    // Routine steps for the habit go with it
+    await Routine.updateMany({ user_id: userId }, { $pull: { steps: { userHabitId: habit._id } } });
 
     res.json({ message: "Habit deleted successfully" });
   } catch (error) {
@@ -228,12 +240,13 @@ export const archiveUserHabit = async (req: AuthRequest, res: Response) => {
 
 // ─── Logging ─────────────────────────────────────────────────────────────────
 
-// POST /api/user-habits/:id/log - Mark habit complete for a day
+// POST /api/user-habits/:id/log - Mark habit complete for a day (or add to a quantitative habit's total)
 export const logUserHabit = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     const userId = req.user!._id;
-    const { date } = req.body;
+    const { date, value, ...detailsInput } = req.body as LogUserHabitInput;
+    const details = pickLogDetails(detailsInput);
 
     const habit = await UserHabit.findOne({ _id: id, user_id: userId });
     if (!habit) return res.status(404).json({ error: "Habit not found" });
@@ -242,7 +255,17 @@ export const logUserHabit = async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: "Cannot log an archived habit" });
     }
 
-    const logDate = startOfDayInTZ(req.user!.timezone || DEFAULT_TIMEZONE, date ? new Date(date) : new Date());
+    if (habit.target && value === undefined) {
+      return res.status(400).json({ error: "A value is required for habits with a target" });
+    }
+
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+    const logDate = startOfDayInTZ(tz, date ? new Date(date) : new Date());
+
+    // Paused days are left out of streaks and rates, so they can't be logged either
+    if (getPausedDays(habit, tz).has(localDayNumber(logDate, tz))) {
+      return res.status(409).json({ error: "This habit is paused on that day — resume it to log" });
+    }
 
     const startOfDay = logDate;
     const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000 - 1);
@@ -251,6 +274,39 @@ export const logUserHabit = async (req: AuthRequest, res: Response) => {
       userHabit_id: id,
       dateCompleted: { $gte: startOfDay, $lte: endOfDay },
     });
+
+    // Quantitative habits: every log is an increment summed into the day's single log
+    if (habit.target) {
+      const increment = { $inc: { value }, $set: { ...details, updatedAt: new Date() } };
+      let created = false;
+      let log: IUserHabitLog;
+      if (existing) {
+        log = (await UserHabitLog.findByIdAndUpdate(existing._id, increment, { new: true }))!;
+      } else {
+        try {
+          log = await UserHabitLog.create({ userHabit_id: id, dateCompleted: logDate, value, ...details });
+          created = true;
+        } catch (error: any) {
+          // A concurrent first increment created the day's log — add to that one instead
+          if (error?.code !== 11000) throw error;
+          log = (await UserHabitLog.findOneAndUpdate({ userHabit_id: id, dateCompleted: logDate }, increment, {
+            new: true,
+          }))!;
+        }
+      }
+      const { xpEarned, achievementsEarned } = await recordHabitProgress(habit, tz, log, isLogComplete(habit, log));
+
+      return res.status(created ? 201 : 200).json({
+        message: "Progress logged successfully",
+        log: { id: log._id, dateCompleted: log.dateCompleted, value: log.value, ...formatLogDetails(log) },
+        target: habit.target,
+        unit: habit.unit,
+        completed: isLogComplete(habit, log),
+        xpEarned,
+        achievementsEarned,
+      });
+    }
+
     if (existing) {
       return res.status(409).json({
         error: "Habit already logged for this date",
@@ -258,11 +314,21 @@ export const logUserHabit = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    const log = await UserHabitLog.create({ userHabit_id: id, dateCompleted: logDate });
+    let log: IUserHabitLog;
+    try {
+      log = await UserHabitLog.create({ userHabit_id: id, dateCompleted: logDate, ...details });
+    } catch (error: any) {
+      // Lost a race with a concurrent log of the same day
+      if (error?.code === 11000) return res.status(409).json({ error: "Habit already logged for this date" });
+      throw error;
+    }
+    const { xpEarned, achievementsEarned } = await recordHabitProgress(habit, tz, log, true);
 
     res.status(201).json({
       message: "Habit logged successfully",
-      log: { id: log._id, dateCompleted: log.dateCompleted },
+      log: { id: log._id, dateCompleted: log.dateCompleted, ...formatLogDetails(log) },
+      xpEarned,
+      achievementsEarned,
     });
   } catch (error) {
     console.error("LogUserHabit error:", error);
@@ -270,6 +336,45 @@ export const logUserHabit = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// PATCH /api/user-habits/:id/log/:date - Edit the note / mood / energy / evidence of a log
+export const updateUserHabitLog = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, date } = req.params;
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const habit = await UserHabit.findOne({ _id: id, user_id: userId });
+    if (!habit) return res.status(404).json({ error: "Habit not found" });
+
+    const startOfDay = startOfDayInTZ(tz, new Date(date));
+    const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000 - 1);
+
+    const { $set, $unset } = buildLogDetailsUpdate(req.body as UpdateHabitLogInput);
+
+    const log = await UserHabitLog.findOneAndUpdate(
+      { userHabit_id: id, dateCompleted: { $gte: startOfDay, $lte: endOfDay } },
+      { $set: { ...$set, updatedAt: new Date() }, $unset },
+      { new: true }
+    );
+    if (!log) return res.status(404).json({ error: "No log found for this date" });
+
+    res.json({
+      message: "Log updated successfully",
+      log: {
+        id: log._id,
+        date: toLocalDateStr(log.dateCompleted, tz),
+        dateCompleted: log.dateCompleted,
+        value: log.value,
+        ...formatLogDetails(log),
+        updatedAt: log.updatedAt,
+      },
+    });
+  } catch (error) {
+    console.error("UpdateUserHabitLog error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 // DELETE /api/user-habits/:id/log/:date - Unlog a habit for a date
 export const unlogUserHabit = async (req: AuthRequest, res: Response) => {
   try {
@@ -290,13 +395,150 @@ export const unlogUserHabit = async (req: AuthRequest, res: Response) => {
     });
     if (!deleted) return res.status(404).json({ error: "No log found for this date" });
 
-    res.json({ message: "Habit log removed successfully" });
+    const xpRemoved = await reverseXpForLog(userId, deleted._id);
+    await emitWebhookEvent(userId, "habit.unlogged", {
+      habit: { id: habit._id, type: "personal", title: habit.title },
+      log: { id: deleted._id, date: toLocalDateStr(deleted.dateCompleted, tz) },
+    });
+
+    res.json({ message: "Habit log removed successfully", xpRemoved });
   } catch (error) {
     console.error("UnlogUserHabit error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
 
+// GET /api/user-habits/:id/logs - Paginated log history (?from=&to=&order=&limit=&cursor=)
+export const getUserHabitLogs = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const habit = await UserHabit.findOne({ _id: id, user_id: userId });
+    if (!habit) return res.status(404).json({ error: "Habit not found" });
+
+    const query = parseLogHistoryQuery(req.query, tz);
+    if ("error" in query) return res.status(400).json({ error: query.error });
+
+    const docs = await UserHabitLog.find({ userHabit_id: id, ...query.filter })
+      .sort({ dateCompleted: query.direction, _id: query.direction })
+      .limit(query.limit + 1);
+
+    const { page, hasMore, nextCursor } = paginateLogs(docs, query.limit);
+
+    res.json({
+      logs: page.map((log) => ({
+        id: log._id,
+        date: toLocalDateStr(log.dateCompleted, tz),
+        dateCompleted: log.dateCompleted,
+        value: log.value,
+        completed: isLogComplete(habit, log),
+        ...formatLogDetails(log),
+        updatedAt: log.updatedAt ?? null,
+      })),
+      hasMore,
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("GetUserHabitLogs error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Pauses ──────────────────────────────────────────────────────────────────
+
+// POST /api/user-habits/:id/pause - Pause a habit from today (optionally until a date)
+export const pauseUserHabit = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!._id;
+    const { reason, until } = req.body as StartPauseInput;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const habit = await UserHabit.findOne({ _id: id, user_id: userId });
+    if (!habit) return res.status(404).json({ error: "Habit not found" });
+
+    if (habit.isArchived) {
+      return res.status(400).json({ error: "Cannot pause an archived habit" });
+    }
+
+    const loggedToday = !!(await UserHabitLog.exists({
+      userHabit_id: id,
+      dateCompleted: { $gte: todayInTZ(tz), $lt: tomorrowInTZ(tz) },
+    }));
+
+    const todayNum = localDayNumber(new Date(), tz);
+    const plan = planPause(habit.pauses, todayNum, { until, loggedToday, maxDays: null });
+    if ("error" in plan) {
+      return res.status(400).json({ error: plan.error });
+    }
+
+    const updated = await UserHabit.findByIdAndUpdate(
+      habit._id,
+      { $push: { pauses: { ...plan, reason } } },
+      { new: true }
+    );
+
+    res.status(201).json({
+      message: "Habit paused",
+      pauses: buildPauseSummary(updated!.pauses, todayNum),
+    });
+  } catch (error) {
+    console.error("PauseUserHabit error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/user-habits/:id/resume - End the current (or cancel a scheduled) pause
+export const resumeUserHabit = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const habit = await UserHabit.findOne({ _id: id, user_id: userId });
+    if (!habit) return res.status(404).json({ error: "Habit not found" });
+
+    const todayNum = localDayNumber(new Date(), tz);
+    const open = findOpenPause(habit.pauses, todayNum);
+    if (!open) {
+      return res.status(404).json({ error: "This habit is not paused" });
+    }
+
+    const updated = await UserHabit.findOneAndUpdate(
+      { _id: habit._id, "pauses._id": open.pause._id },
+      resumePauseUpdate(open.pause, todayNum),
+      { new: true }
+    );
+
+    res.json({
+      message: "Habit resumed",
+      pauses: buildPauseSummary(updated?.pauses ?? habit.pauses, todayNum),
+    });
+  } catch (error) {
+    console.error("ResumeUserHabit error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/user-habits/:id/pauses - Pause state and history
+export const getUserHabitPauses = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!._id;
+    const tz = req.user!.timezone || DEFAULT_TIMEZONE;
+
+    const habit = await UserHabit.findOne({ _id: id, user_id: userId });
+    if (!habit) return res.status(404).json({ error: "Habit not found" });
+
+    res.json({ pauses: buildPauseSummary(habit.pauses, localDayNumber(new Date(), tz)) });
+  } catch (error) {
+    console.error("GetUserHabitPauses error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 // ─── Analytics ───────────────────────────────────────────────────────────────
 
 // GET /api/user-habits/:id/analytics - Full analytics for a habit
@@ -309,47 +551,52 @@ export const getUserHabitAnalytics = async (req: AuthRequest, res: Response) =>
     if (!habit) return res.status(404).json({ error: "Habit not found" });
 
     const allLogs = await UserHabitLog.find({ userHabit_id: id }).sort({ dateCompleted: 1 });
-    const dates = allLogs.map((l) => l.dateCompleted);
+    // Only days that reached the target count towards streaks and rates
+    const dates = allLogs.filter((l) => isLogComplete(habit, l)).map((l) => l.dateCompleted);
 
-    const { currentStreak, longestStreak, lastCompletedDate } = computeStreaks(dates, req.user!.timezone || DEFAULT_TIMEZONE);
-
-    const totalCompletions = dates.length;
-
-    // Completion rate — last 30 calendar days
     const tz = req.user!.timezone || DEFAULT_TIMEZONE;
-    const today = todayInTZ(tz);
-    const thirtyDaysAgo = new Date(today.getTime() - 29 * 24 * 60 * 60 * 1000);
+    const schedule = getHabitSchedule(habit);
+    const paused = getPausedDays(habit, tz);
+    const { excused, frozen } = await getStreakExcusedDays(habit, schedule, dates, paused, tz);
+    const { currentStreak, longestStreak, streakUnit, lastCompletedDate } = computeStreaks(dates, tz, schedule, excused);
 
-    const last30Logs = dates.filter((d) => d >= thirtyDaysAgo).length;
-    const completionRateLast30 = Math.round((last30Logs / 30) * 100);
+    const totalCompletions = dates.length;
 
-    // Completion rate — last 7 days
-    const sevenDaysAgo = new Date(today.getTime() - 6 * 24 * 60 * 60 * 1000);
-    const last7Logs = dates.filter((d) => d >= sevenDaysAgo).length;
-    const completionRateLast7 = Math.round((last7Logs / 7) * 100);
+    // Completion rates only count days the schedule expects (and that weren't paused)
+    const completedDays = toCompletedDays(dates, tz);
+    const todayNum = localDayNumber(new Date(), tz);
+    const completionRateLast30 = completionRate(schedule, completedDays, todayNum - 29, todayNum, paused);
+    const completionRateLast7 = completionRate(schedule, completedDays, todayNum - 6, todayNum, paused);
 
     // Check completed today — compare raw stored dates against TZ-aware [today, tomorrow)
+    const today = todayInTZ(tz);
     const tomorrow = tomorrowInTZ(tz);
     const completedToday = dates.some((d) => d >= today && d < tomorrow);
+    const dueToday = isDueToday(schedule, completedDays, todayNum, paused);
 
-    // Weekly breakdown — past 4 weeks (Mon–Sun)
-    const weeklyBreakdown = buildWeeklyBreakdown(dates, 4, tz);
+    // Weekly breakdown — past 4 weeks (Sun–Sat)
+    const weeklyBreakdown = buildWeeklyBreakdown(completedDays, 4, tz, schedule, paused);
 
     // Monthly breakdown — past 6 months
-    const monthlyBreakdown = buildMonthlyBreakdown(dates, 6, tz);
+    const monthlyBreakdown = buildMonthlyBreakdown(completedDays, 6, tz, schedule, paused);
 
     res.json({
       habit: formatHabit(habit),
       analytics: {
         currentStreak,
         longestStreak,
+        streakUnit,
         totalCompletions,
         lastCompletedDate,
         completedToday,
+        dueToday,
+        pausedToday: paused.has(todayNum),
+        frozenDates: [...frozen].sort((a, b) => a - b).map(dayNumberToDateStr),
         completionRateLast7,
         completionRateLast30,
         weeklyBreakdown,
         monthlyBreakdown,
+        quantity: buildQuantityStats(habit, allLogs, tz),
       },
     });
   } catch (error) {
@@ -375,27 +622,40 @@ export const getUserHabitsSummary = async (req: AuthRequest, res: Response) => {
           userHabit_id: habit._id,
         }).sort({ dateCompleted: 1 });
 
-        const dates = allLogs.map((l) => l.dateCompleted);
-        const { currentStreak, longestStreak, lastCompletedDate } = computeStreaks(dates, tz);
+        const dates = allLogs.filter((l) => isLogComplete(habit, l)).map((l) => l.dateCompleted);
+        const schedule = getHabitSchedule(habit);
+        const paused = getPausedDays(habit, tz);
+        const { excused } = await getStreakExcusedDays(habit, schedule, dates, paused, tz);
+        const { currentStreak, longestStreak, streakUnit, lastCompletedDate } = computeStreaks(dates, tz, schedule, excused);
 
         const completedToday = dates.some((d) => d >= today && d < tomorrow);
+        const todayNum = localDayNumber(new Date(), tz);
+        const dueToday = isDueToday(schedule, toCompletedDays(dates, tz), todayNum, paused);
 
         return {
           habit: formatHabit(habit),
           currentStreak,
           longestStreak,
+          streakUnit,
           totalCompletions: dates.length,
           completedToday,
+          dueToday,
+          pausedToday: paused.has(todayNum),
           lastCompletedDate,
         };
       })
     );
 
     const completedTodayCount = summaries.filter((s) => s.completedToday).length;
+    // Habits not scheduled for today aren't "expected", so they don't count against the day
+    const dueTodayCount = summaries.filter((s) => s.dueToday).length;
+    const completedDueTodayCount = summaries.filter((s) => s.dueToday && s.completedToday).length;
 
     res.json({
       totalHabits: habits.length,
       completedTodayCount,
+      dueTodayCount,
+      completedDueTodayCount,
       habits: summaries,
     });
   } catch (error) {
@@ -412,35 +672,76 @@ function formatHabit(habit: any) {
     title: habit.title,
     description: habit.description,
     color: habit.color,
+    schedule: getHabitSchedule(habit),
+    target: habit.target ?? null,
+    unit: habit.unit ?? null,
+    reminderTimes: habit.reminderTimes ?? [],
     isArchived: habit.isArchived,
     createdAt: habit.createdAt,
   };
 }
 
-function buildWeeklyBreakdown(dates: Date[], weeks: number, tz: string) {
+/** Totals / averages / target hit rate for quantitative habits (null for yes/no habits). */
+function buildQuantityStats(habit: any, logs: { dateCompleted: Date; value: number }[], tz: string) {
+  if (!habit.target) return null;
+
+  const todayNum = localDayNumber(new Date(), tz);
+  const totalValue = logs.reduce((sum, l) => sum + l.value, 0);
+  const targetHitDays = logs.filter((l) => isLogComplete(habit, l)).length;
+  const last30Logs = logs.filter((l) => localDayNumber(l.dateCompleted, tz) > todayNum - 30);
+  const todayLog = logs.find((l) => localDayNumber(l.dateCompleted, tz) === todayNum);
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+
+  return {
+    target: habit.target,
+    unit: habit.unit ?? null,
+    todayValue: todayLog?.value ?? 0,
+    totalValue: round(totalValue),
+    loggedDays: logs.length,
+    averagePerLoggedDay: logs.length > 0 ? round(totalValue / logs.length) : 0,
+    // Averaged over all 30 calendar days, so skipped days pull it down
+    averagePerDayLast30: round(last30Logs.reduce((sum, l) => sum + l.value, 0) / 30),
+    targetHitDays,
+    targetHitRate: logs.length > 0 ? Math.round((targetHitDays / logs.length) * 100) : 0,
+  };
+}
+
+function buildWeeklyBreakdown(
+  completedDays: Set<number>,
+  weeks: number,
+  tz: string,
+  schedule: HabitSchedule,
+  paused: ReadonlySet<number>
+) {
   const result = [];
-  const today = todayInTZ(tz);
+  const currentWeekStart = weekStartOf(localDayNumber(new Date(), tz));
 
   for (let w = weeks - 1; w >= 0; w--) {
-    // weekStart = Sunday of `w` weeks ago, expressed as IST-midnight UTC timestamp
-    const weekStart = new Date(today.getTime() - (today.getUTCDay() + w * 7) * 24 * 60 * 60 * 1000);
-    const weekEnd   = new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000); // exclusive
+    // Sunday … Saturday of `w` weeks ago, as local day numbers
+    const weekStart = currentWeekStart - w * 7;
+    const weekEnd = weekStart + 6;
 
-    // Compare raw stored dates (IST-midnight UTC) directly — no toDay() needed
-    const completed = dates.filter((d) => d >= weekStart && d < weekEnd).length;
+    const { expected, completed } = summarizeRange(schedule, completedDays, weekStart, weekEnd, paused);
 
     result.push({
-      weekStart: toLocalDateStr(weekStart, tz),
-      weekEnd:   toLocalDateStr(new Date(weekEnd.getTime() - 1), tz),
+      weekStart: dayNumberToDateStr(weekStart),
+      weekEnd:   dayNumberToDateStr(weekEnd),
       completed,
-      total: 7,
+      total: expected,
     });
   }
 
   return result;
 }
 
-function buildMonthlyBreakdown(dates: Date[], months: number, tz: string) {
+function buildMonthlyBreakdown(
+  completedDays: Set<number>,
+  months: number,
+  tz: string,
+  schedule: HabitSchedule,
+  paused: ReadonlySet<number>
+) {
   const result = [];
   const now = new Date();
   const currentLocalDate = toLocalDateStr(now, tz); // "YYYY-MM-DD" in user's TZ
@@ -454,17 +755,17 @@ function buildMonthlyBreakdown(dates: Date[], months: number, tz: string) {
     const daysInMonth = new Date(year, month, 0).getDate();
     const monthStr    = `${year}-${String(month).padStart(2, "0")}`;
 
-    // Match logs whose LOCAL date (in user's TZ) falls in this year-month
-    const completed = dates.filter((date) => {
-      const local = toLocalDateStr(date, tz); // "YYYY-MM-DD"
-      return local.startsWith(monthStr);
-    }).length;
+    // Local day numbers of the 1st and last day of this year-month
+    const monthStart = dateStrToDayNumber(`${monthStr}-01`);
+    const monthEnd   = monthStart + daysInMonth - 1;
+
+    const { expected, completed } = summarizeRange(schedule, completedDays, monthStart, monthEnd, paused);
 
     result.push({
       month: monthStr,
       completed,
-      total: daysInMonth,
-      completionRate: Math.round((completed / daysInMonth) * 100),
+      total: expected,
+      completionRate: expected > 0 ? Math.round((completed / expected) * 100) : 0,
     });
   }
 
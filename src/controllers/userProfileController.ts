@@ -6,6 +6,8 @@ import Habit from "../models/Habit";
 import HabitLog from "../models/HabitLog";
 import UserHabit from "../models/UserHabit";
 import UserHabitLog from "../models/UserHabitLog";
+import { getUserAchievements } from "../utils/achievements";
+import { levelForXp } from "../utils/xp";
 
 // GET /api/users/:userId/profile  — Public, no auth required
 export const getPublicProfile = async (req: Request, res: Response) => {
@@ -16,7 +18,7 @@ export const getPublicProfile = async (req: Request, res: Response) => {
       return res.status(404).json({ error: "User not found" });
     }
 
-    const user = await User.findById(userId).select("name avatar createdAt");
+    const user = await User.findById(userId).select("name avatar createdAt xp");
     if (!user) {
       return res.status(404).json({ error: "User not found" });
     }
@@ -62,6 +64,8 @@ export const getPublicProfile = async (req: Request, res: Response) => {
         },
       },
       { $unwind: "$challenge" },
+      // Private challenges stay off public profiles
+      { $match: { "challenge.visibility": { $ne: "private" } } },
       { $sort: { createdAt: -1 } },
       {
         $project: {
@@ -88,6 +92,8 @@ export const getPublicProfile = async (req: Request, res: Response) => {
         },
       },
       { $unwind: "$challenge" },
+      // Private challenges stay off public profiles
+      { $match: { "challenge.visibility": { $ne: "private" } } },
       { $sort: { completedOn: -1 } },
       { $limit: 10 },
       {
@@ -172,6 +178,8 @@ export const getPublicProfile = async (req: Request, res: Response) => {
       .map(([date, count]) => ({ date, count }))
       .sort((a, b) => a.date.localeCompare(b.date));
 
+    const achievements = await getUserAchievements(userObjectId);
+
     res.json({
       user: {
         id: user._id,
@@ -179,6 +187,7 @@ export const getPublicProfile = async (req: Request, res: Response) => {
         avatar: user.avatar ?? null,
         memberSince: user.createdAt,
       },
+      level: levelForXp(user.xp ?? 0),
       challengeStats: {
         totalEnrollments,
         completed: completedCount,
@@ -198,6 +207,7 @@ export const getPublicProfile = async (req: Request, res: Response) => {
         totalLogs: totalPersonalLogs[0]?.total ?? 0,
       },
       activityHeatmap,
+      achievements,
     });
   } catch (error) {
     console.error("GetPublicProfile error:", error);
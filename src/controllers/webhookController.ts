@@ -0,0 +1,197 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import WebhookEndpoint, { IWebhookEndpoint } from "../models/WebhookEndpoint";
+import WebhookDelivery, { IWebhookDelivery } from "../models/WebhookDelivery";
+import { AuthRequest } from "../middleware/auth";
+import { CreateWebhookInput, UpdateWebhookInput } from "../schemas/webhook.schema";
+import { parseLimit, decodeCursor, encodeCursor, cursorFilter } from "../utils/pagination";
+import { generateWebhookSecret, queueDelivery, attemptDelivery } from "../utils/webhooks";
+
+const MAX_WEBHOOKS_PER_USER = 10;
+
+// POST /api/webhooks - Register an endpoint (the signing secret is only returned here)
+export const createWebhook = async (req: AuthRequest, res: Response) => {
+  try {
+    const { url, description, events } = req.body as CreateWebhookInput;
+    const userId = req.user!._id;
+
+    const count = await WebhookEndpoint.countDocuments({ userId });
+    if (count >= MAX_WEBHOOKS_PER_USER) {
+      return res.status(400).json({ error: `You can register at most ${MAX_WEBHOOKS_PER_USER} webhooks` });
+    }
+
+    const endpoint = await WebhookEndpoint.create({
+      userId,
+      url,
+      description,
+      events,
+      secret: generateWebhookSecret(),
+    });
+
+    res.status(201).json({
+      message: "Webhook created successfully",
+      webhook: { ...formatEndpoint(endpoint), secret: endpoint.secret },
+    });
+  } catch (error) {
+    console.error("CreateWebhook error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/webhooks - List the user's endpoints
+export const getWebhooks = async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoints = await WebhookEndpoint.find({ userId: req.user!._id }).sort({ createdAt: -1 });
+
+    res.json({ webhooks: endpoints.map(formatEndpoint) });
+  } catch (error) {
+    console.error("GetWebhooks error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// PUT /api/webhooks/:id - Change the URL, events or enable / disable an endpoint
+export const updateWebhook = async (req: AuthRequest, res: Response) => {
+  try {
+    const { url, description, events, active } = req.body as UpdateWebhookInput;
+
+    const endpoint = await findOwnEndpoint(req);
+    if (!endpoint) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    if (url !== undefined) endpoint.url = url;
+    if (description !== undefined) endpoint.description = description;
+    if (events !== undefined) endpoint.events = events;
+    if (active !== undefined) endpoint.active = active;
+    endpoint.updatedAt = new Date();
+    await endpoint.save();
+
+    res.json({ message: "Webhook updated successfully", webhook: formatEndpoint(endpoint) });
+  } catch (error) {
+    console.error("UpdateWebhook error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// DELETE /api/webhooks/:id - Remove an endpoint and its delivery log
+export const deleteWebhook = async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoint = await findOwnEndpoint(req);
+    if (!endpoint) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    await WebhookDelivery.deleteMany({ endpointId: endpoint._id });
+    await endpoint.deleteOne();
+
+    res.json({ message: "Webhook deleted successfully" });
+  } catch (error) {
+    console.error("DeleteWebhook error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /api/webhooks/:id/deliveries - Delivery log, newest first (?status=&limit=&cursor=)
+export const getWebhookDeliveries = async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoint = await findOwnEndpoint(req);
+    if (!endpoint) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    const limit = parseLimit(req.query.limit);
+    const filter: Record<string, unknown> = { endpointId: endpoint._id };
+
+    const { status } = req.query;
+    if (status !== undefined) {
+      if (status !== "pending" && status !== "succeeded" && status !== "failed") {
+        return res.status(400).json({ error: "status must be one of: pending, succeeded, failed" });
+      }
+      filter.status = status;
+    }
+    if (req.query.cursor !== undefined) {
+      const cursor = typeof req.query.cursor === "string" ? decodeCursor(req.query.cursor) : null;
+      if (!cursor) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      Object.assign(filter, cursorFilter("createdAt", cursor, -1));
+    }
+
+    const deliveries = await WebhookDelivery.find(filter).sort({ createdAt: -1, _id: -1 }).limit(limit + 1);
+    const hasMore = deliveries.length > limit;
+    const page = hasMore ? deliveries.slice(0, limit) : deliveries;
+    const last = page[page.length - 1];
+
+    res.json({
+      deliveries: page.map(formatDelivery),
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+    });
+  } catch (error) {
+    console.error("GetWebhookDeliveries error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// POST /api/webhooks/:id/test - Send a "ping" event right away and report the result
+export const testWebhook = async (req: AuthRequest, res: Response) => {
+  try {
+    const endpoint = await findOwnEndpoint(req);
+    if (!endpoint) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    // Test fires are sent once, even to disabled endpoints, and never retried
+    const queued = await queueDelivery(
+      endpoint,
+      "ping",
+      { message: "This is a test event", webhookId: endpoint._id },
+      { schedule: false }
+    );
+    const delivery = await attemptDelivery(queued, endpoint, { retry: false });
+
+    res.json({
+      message: delivery.status === "succeeded" ? "Test event delivered" : "Test event could not be delivered",
+      delivery: formatDelivery(delivery),
+    });
+  } catch (error) {
+    console.error("TestWebhook error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+async function findOwnEndpoint(req: AuthRequest): Promise<IWebhookEndpoint | null> {
+  const { id } = req.params;
+  if (!Types.ObjectId.isValid(id)) return null;
+  return WebhookEndpoint.findOne({ _id: id, userId: req.user!._id });
+}
+
+function formatEndpoint(endpoint: IWebhookEndpoint) {
+  return {
+    id: endpoint._id,
+    url: endpoint.url,
+    description: endpoint.description ?? null,
+    events: endpoint.events,
+    active: endpoint.active,
+    createdAt: endpoint.createdAt,
+    updatedAt: endpoint.updatedAt ?? null,
+  };
+}
+
+function formatDelivery(delivery: IWebhookDelivery) {
+  return {
+    id: delivery._id,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt ?? null,
+    lastAttemptAt: delivery.lastAttemptAt ?? null,
+    responseStatus: delivery.responseStatus ?? null,
+    error: delivery.error ?? null,
+    payload: delivery.payload,
+    createdAt: delivery.createdAt,
+  };
+}
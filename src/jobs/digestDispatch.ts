@@ -0,0 +1,83 @@
+import User, { IUser } from "../models/User";
+import DigestDelivery, { DigestKind } from "../models/DigestDelivery";
+import { Job } from "./scheduler";
+import { toLocalTimeStr, DEFAULT_TIMEZONE } from "../utils/timezone";
+import { localDayNumber, weekdayOf, dayNumberToDateStr } from "../utils/habitSchedule";
+import { buildDigest, isEmptyDigest, renderDigest, weeklyPeriod, monthlyPeriod, DigestPeriod } from "../utils/digest";
+import { sendMail } from "../utils/mailer";
+
+const JOB_NAME = "digestDispatch";
+
+// Local hour (0–23) from which the day's digests go out
+const SEND_HOUR = parseSendHour(process.env.DIGEST_SEND_HOUR);
+
+/**
+ * Sends the digests that are due, in each user's own timezone: the weekly one
+ * on the user's chosen weekday, the monthly one on the 1st — both from
+ * SEND_HOUR local time on. Digests are opt-in (see PUT /api/digests/settings)
+ * and only go to verified email addresses. Each
+ * (user, kind, period) is claimed in DigestDelivery first so it is sent once;
+ * periods with nothing to report are recorded as skipped.
+ */
+export async function runDigestDispatch(now: Date = new Date()): Promise<void> {
+  const users = await User.find({
+    emailVerified: true,
+    $or: [{ "digestSettings.weekly": true }, { "digestSettings.monthly": true }],
+  }).select("name email timezone digestSettings");
+
+  for (const user of users) {
+    const tz = user.timezone || DEFAULT_TIMEZONE;
+    if (Number(toLocalTimeStr(now, tz).slice(0, 2)) < SEND_HOUR) continue;
+
+    const today = localDayNumber(now, tz);
+    const settings = user.digestSettings;
+    if (settings?.weekly === true && weekdayOf(today) === (settings?.weeklyDay ?? 1)) {
+      await dispatch(user, "weekly", weeklyPeriod(today));
+    }
+    if (settings?.monthly === true && dayNumberToDateStr(today).endsWith("-01")) {
+      await dispatch(user, "monthly", monthlyPeriod(today));
+    }
+  }
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function parseSendHour(raw: string | undefined): number {
+  const hour = raw === undefined || raw.trim() === "" ? NaN : Number(raw);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 8;
+}
+
+async function dispatch(user: IUser, kind: DigestKind, period: DigestPeriod): Promise<void> {
+  let delivery;
+  try {
+    delivery = await DigestDelivery.create({
+      userId: user._id,
+      kind,
+      periodStart: dayNumberToDateStr(period.from),
+      periodEnd: dayNumberToDateStr(period.to),
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) return; // already handled
+    throw error;
+  }
+
+  try {
+    const digest = await buildDigest(user, period, kind);
+    if (isEmptyDigest(digest)) {
+      await DigestDelivery.updateOne({ _id: delivery._id }, { status: "skipped", reason: "empty" });
+      return;
+    }
+
+    await sendMail(renderDigest(digest, user));
+    await DigestDelivery.updateOne({ _id: delivery._id }, { status: "sent", sentAt: new Date() });
+  } catch (error) {
+    console.error(`DigestDispatch error (${kind} ${user._id}):`, error);
+    await DigestDelivery.updateOne({ _id: delivery._id }, { status: "failed", reason: String(error) });
+  }
+}
+
+export const digestDispatchJob: Job = {
+  name: JOB_NAME,
+  intervalMs: Number(process.env.DIGEST_DISPATCH_INTERVAL_MS) || 1000 * 60 * 15,
+  run: () => runDigestDispatch(),
+};
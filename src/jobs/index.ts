@@ -0,0 +1,12 @@
+import { registerJob, startScheduler, stopScheduler } from "./scheduler";
+import { missedDaySweepJob } from "./missedDaySweep";
+import { reminderDispatchJob } from "./reminderDispatch";
+import { webhookDeliveryJob } from "./webhookDelivery";
+import { digestDispatchJob } from "./digestDispatch";
+
+registerJob(missedDaySweepJob);
+registerJob(reminderDispatchJob);
+registerJob(webhookDeliveryJob);
+registerJob(digestDispatchJob);
+
+export { startScheduler, stopScheduler };
@@ -0,0 +1,115 @@
+import UserChallenge from "../models/UserChallenge";
+import Team from "../models/Team";
+import { claimRun, finishRun, Job } from "./scheduler";
+import { getMissedDayUpdate } from "../utils/challengeProgress";
+import { refreshTeamMissedDays } from "../utils/teamProgress";
+import { applyChallengeStreakFreezes } from "../utils/streakFreeze";
+import { notifyMissedDayUpdate } from "../utils/notifications";
+import { emitChallengeOutcome } from "../utils/webhooks";
+import { toLocalDateStr, DEFAULT_TIMEZONE } from "../utils/timezone";
+
+const JOB_NAME = "missedDaySweep";
+
+/**
+ * Persists missed days / lives / "failed" status for every active enrollment,
+ * once per user timezone per local day. The first tick after local midnight in
+ * a timezone claims "<tz>:<YYYY-MM-DD>" and evaluates all active enrollments of
+ * users in that timezone, so enrollments nobody opens still fail on time.
+ * Streak freezes are spent on yesterday's miss before it costs a life.
+ * Team enrollments share one pool of lives, so teams are swept separately
+ * ("team:<tz>:<YYYY-MM-DD>", in the team's timezone) instead of per member.
+ */
+export async function runMissedDaySweep(now: Date = new Date()): Promise<void> {
+  // Active individual enrollments grouped by their owner's timezone — normalized in the
+  // group so users without one share a run with those explicitly on the default
+  const groups: { _id: string; ids: unknown[] }[] = await UserChallenge.aggregate([
+    { $match: { status: "active", teamId: null } },
+    {
+      $lookup: {
+        from: "users",
+        localField: "userId",
+        foreignField: "_id",
+        as: "user",
+      },
+    },
+    { $unwind: "$user" },
+    { $group: { _id: { $ifNull: ["$user.timezone", DEFAULT_TIMEZONE] }, ids: { $push: "$_id" } } },
+  ]);
+
+  for (const group of groups) {
+    const tz = group._id;
+    const run = await claimRun(JOB_NAME, `${tz}:${toLocalDateStr(now, tz)}`);
+    if (!run) continue;
+
+    let processed = 0;
+    let updated = 0;
+    try {
+      const enrollments = await UserChallenge.find({ _id: { $in: group.ids }, status: "active", teamId: null })
+        .populate("challengeId");
+      for (const userChallenge of enrollments) {
+        processed++;
+        // Enrollments whose challenge was deleted keep their default rules
+        const challenge = (userChallenge.challengeId as any) ?? {};
+        await applyChallengeStreakFreezes(userChallenge, challenge, tz, now);
+        const update = getMissedDayUpdate(userChallenge, challenge, tz, now);
+        if (!update) continue;
+
+        // Guard on status so a concurrent completion in logHabit is never overwritten
+        const result = await UserChallenge.updateOne(
+          { _id: userChallenge._id, status: "active" },
+          update
+        );
+        updated += result.modifiedCount;
+        if (result.modifiedCount > 0) {
+          const recipients = [{ userId: userChallenge.userId, userChallengeId: userChallenge._id }];
+          await notifyMissedDayUpdate(recipients, challenge.title ?? "your challenge", userChallenge.livesRemaining, update);
+          if (update.status === "failed") {
+            await emitChallengeOutcome(recipients, challenge, "failed");
+          }
+        }
+      }
+      await finishRun(run, { processed, updated });
+    } catch (error) {
+      console.error(`MissedDaySweep error (${tz}):`, error);
+      await finishRun(run, { processed, updated, error });
+    }
+  }
+
+  await sweepTeams(now);
+}
+
+async function sweepTeams(now: Date): Promise<void> {
+  const groups: { _id: string; ids: unknown[] }[] = await Team.aggregate([
+    { $match: { status: "active" } },
+    { $group: { _id: { $ifNull: ["$timezone", DEFAULT_TIMEZONE] }, ids: { $push: "$_id" } } },
+  ]);
+
+  for (const group of groups) {
+    const tz = group._id;
+    const run = await claimRun(JOB_NAME, `team:${tz}:${toLocalDateStr(now, tz)}`);
+    if (!run) continue;
+
+    let processed = 0;
+    let updated = 0;
+    try {
+      const teams = await Team.find({ _id: { $in: group.ids }, status: "active" }).populate("challengeId");
+      for (const team of teams) {
+        processed++;
+        const challenge = (team.challengeId as any) ?? {};
+        const before = `${team.missedDays}:${team.livesRemaining}:${team.progress.currentStreak}`;
+        const after = await refreshTeamMissedDays(team, challenge, now);
+        if (`${after.missedDays}:${after.livesRemaining}:${after.progress.currentStreak}` !== before) updated++;
+      }
+      await finishRun(run, { processed, updated });
+    } catch (error) {
+      console.error(`MissedDaySweep team error (${tz}):`, error);
+      await finishRun(run, { processed, updated, error });
+    }
+  }
+}
+
+export const missedDaySweepJob: Job = {
+  name: JOB_NAME,
+  intervalMs: Number(process.env.MISSED_DAY_SWEEP_INTERVAL_MS) || 1000 * 60 * 5,
+  run: () => runMissedDaySweep(),
+};
@@ -0,0 +1,217 @@
+import { Types } from "mongoose";
+import User, { IUser, IReminderSettings } from "../models/User";
+import UserHabit, { IUserHabit } from "../models/UserHabit";
+import UserHabitLog from "../models/UserHabitLog";
+import UserChallenge, { IUserChallenge } from "../models/UserChallenge";
+import Habit from "../models/Habit";
+import HabitLog from "../models/HabitLog";
+import ReminderDelivery, { ReminderTargetType } from "../models/ReminderDelivery";
+import { Job } from "./scheduler";
+import { toLocalDateStr, toLocalTimeStr, startOfDayInTZ, DEFAULT_TIMEZONE } from "../utils/timezone";
+import { getHabitSchedule, isDueToday, localDayNumber } from "../utils/habitSchedule";
+import { isLogComplete } from "../utils/habitLog";
+import { pausedDaySet } from "../utils/pause";
+import { getChallengeRules } from "../utils/challengeProgress";
+import { getPausedDays } from "../utils/userHabitProgress";
+import { getReminderChannel } from "../utils/reminderChannels";
+import { appLink } from "../utils/mailer";
+
+const JOB_NAME = "reminderDispatch";
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Reminder times up to this many minutes in the past are still sent (covers restarts / slow ticks)
+const CATCH_UP_MINUTES = Number(process.env.REMINDER_CATCH_UP_MINUTES) || 15;
+
+type ReminderContent = { skip: string } | { title: string; body: string; link: string };
+
+/**
+ * Sends the reminders that are due, in each user's own timezone. Every tick
+ * looks at personal habits and active enrollments with reminder times; a time
+ * is due once it has passed today (local), for up to CATCH_UP_MINUTES. Each
+ * slot is claimed in ReminderDelivery first so it is handled exactly once.
+ *
+ * A due reminder is skipped (and recorded as such) during the user's quiet
+ * hours, when the habit / the enrollment's habits are already logged today, or
+ * when there is nothing to do today (off day, paused, not started yet).
+ */
+export async function runReminderDispatch(now: Date = new Date()): Promise<void> {
+  const [habits, enrollments] = await Promise.all([
+    UserHabit.find({ isArchived: false, "reminderTimes.0": { $exists: true } }),
+    UserChallenge.find({ status: "active", "reminderTimes.0": { $exists: true } }).populate("challengeId"),
+  ]);
+  if (habits.length === 0 && enrollments.length === 0) return;
+
+  const userIds = [...habits.map((h) => h.user_id), ...enrollments.map((e) => e.userId)];
+  const users = await User.find({ _id: { $in: userIds } }).select("name email timezone reminderSettings");
+  const usersById = new Map(users.map((u) => [u._id.toString(), u]));
+
+  for (const habit of habits) {
+    const user = usersById.get(habit.user_id.toString());
+    if (!user) continue;
+    for (const time of dueTimes(habit.reminderTimes, user, now)) {
+      await dispatch(user, "habit", habit._id, time, now, () => habitReminder(habit, user, now));
+    }
+  }
+
+  for (const enrollment of enrollments) {
+    const user = usersById.get(enrollment.userId.toString());
+    if (!user) continue;
+    for (const time of dueTimes(enrollment.reminderTimes, user, now)) {
+      await dispatch(user, "challenge", enrollment._id, time, now, () => challengeReminder(enrollment, user, now));
+    }
+  }
+}
+
+/** Whether a local "HH:mm" falls within quiet hours (which may wrap past midnight). */
+export function isWithinQuietHours(time: string, quietHours: IReminderSettings["quietHours"]): boolean {
+  if (!quietHours) return false;
+  const { start, end } = quietHours;
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+/** The reminder times that have passed today (local) within the catch-up window. */
+function dueTimes(times: string[], user: IUser, now: Date): string[] {
+  if ((user.reminderSettings?.channels ?? []).length === 0) return [];
+
+  const nowMinutes = toMinutes(toLocalTimeStr(now, user.timezone || DEFAULT_TIMEZONE));
+  return times.filter((time) => {
+    const late = nowMinutes - toMinutes(time);
+    return late >= 0 && late <= CATCH_UP_MINUTES;
+  });
+}
+
+async function dispatch(
+  user: IUser,
+  targetType: ReminderTargetType,
+  targetId: Types.ObjectId,
+  time: string,
+  now: Date,
+  buildContent: () => Promise<ReminderContent>
+): Promise<void> {
+  const tz = user.timezone || DEFAULT_TIMEZONE;
+  const date = toLocalDateStr(now, tz);
+
+  let delivery;
+  try {
+    delivery = await ReminderDelivery.create({ userId: user._id, targetType, targetId, date, time });
+  } catch (error: any) {
+    if (error?.code === 11000) return; // already handled
+    throw error;
+  }
+
+  try {
+    const settings = user.reminderSettings;
+    if (isWithinQuietHours(time, settings.quietHours)) {
+      await ReminderDelivery.updateOne({ _id: delivery._id }, { status: "skipped", reason: "quiet_hours" });
+      return;
+    }
+
+    const content = await buildContent();
+    if ("skip" in content) {
+      await ReminderDelivery.updateOne({ _id: delivery._id }, { status: "skipped", reason: content.skip });
+      return;
+    }
+
+    const results = [];
+    for (const channel of settings.channels) {
+      try {
+        await getReminderChannel(channel).send({
+          userId: user._id,
+          email: user.email,
+          name: user.name,
+          webhookUrl: settings.webhookUrl,
+          targetType,
+          targetId,
+          date,
+          time,
+          ...content,
+        });
+        results.push({ channel, ok: true });
+      } catch (error) {
+        results.push({ channel, ok: false, error: String(error) });
+      }
+    }
+
+    await ReminderDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        status: results.some((r) => r.ok) ? "sent" : "failed",
+        title: content.title,
+        body: content.body,
+        channels: results,
+        sentAt: new Date(),
+      }
+    );
+  } catch (error) {
+    console.error(`ReminderDispatch error (${targetType} ${targetId}):`, error);
+    await ReminderDelivery.updateOne({ _id: delivery._id }, { status: "failed", reason: String(error) });
+  }
+}
+
+async function habitReminder(habit: IUserHabit, user: IUser, now: Date): Promise<ReminderContent> {
+  const tz = user.timezone || DEFAULT_TIMEZONE;
+  const today = localDayNumber(now, tz);
+  const paused = getPausedDays(habit, tz);
+  if (paused.has(today)) return { skip: "paused" };
+
+  // A week of logs is enough to tell whether a weekly quota is already met
+  const logs = await UserHabitLog.find({
+    userHabit_id: habit._id,
+    dateCompleted: { $gte: new Date(startOfDayInTZ(tz, now).getTime() - 7 * DAY_MS) },
+  });
+  const completedDays = new Set(
+    logs.filter((l) => isLogComplete(habit, l)).map((l) => localDayNumber(l.dateCompleted, tz))
+  );
+
+  if (completedDays.has(today)) return { skip: "already_logged" };
+  if (!isDueToday(getHabitSchedule(habit), completedDays, today, paused)) return { skip: "not_due" };
+
+  const todayLog = logs.find((l) => localDayNumber(l.dateCompleted, tz) === today);
+  return {
+    title: `Reminder: ${habit.title}`,
+    body: habit.target
+      ? `You're at ${todayLog?.value ?? 0} of ${habit.target}${habit.unit ? ` ${habit.unit}` : ""} for "${habit.title}" today.`
+      : `You haven't logged "${habit.title}" yet today.`,
+    link: appLink(`/habits/${habit._id}`),
+  };
+}
+
+async function challengeReminder(enrollment: IUserChallenge, user: IUser, now: Date): Promise<ReminderContent> {
+  const tz = user.timezone || DEFAULT_TIMEZONE;
+  const challenge = enrollment.challengeId as any;
+  const today = localDayNumber(now, tz);
+
+  if (localDayNumber(enrollment.startDate, tz) > today) return { skip: "not_started" };
+
+  const { maxPausedDays } = getChallengeRules(challenge ?? {});
+  if (pausedDaySet(enrollment.pauses, today, maxPausedDays).has(today)) return { skip: "paused" };
+
+  const dayStart = startOfDayInTZ(tz, now);
+  const habitIds = await Habit.find({ userChallenge_id: enrollment._id }).distinct("_id");
+  const loggedHabitIds = await HabitLog.find({
+    habit_id: { $in: habitIds },
+    dateCompleted: { $gte: dayStart, $lt: new Date(dayStart.getTime() + DAY_MS) },
+  }).distinct("habit_id");
+
+  if (habitIds.length > 0 && loggedHabitIds.length >= habitIds.length) return { skip: "already_logged" };
+
+  const title = challenge?.title ?? "your challenge";
+  return {
+    title: `Reminder: ${title}`,
+    body: `${loggedHabitIds.length} of ${habitIds.length} habits logged today for "${title}" — keep it going.`,
+    link: appLink(`/my-challenges/${enrollment._id}`),
+  };
+}
+
+export const reminderDispatchJob: Job = {
+  name: JOB_NAME,
+  intervalMs: Number(process.env.REMINDER_DISPATCH_INTERVAL_MS) || 1000 * 60,
+  run: () => runReminderDispatch(),
+};
@@ -0,0 +1,93 @@
+import JobRun, { IJobRun } from "../models/JobRun";
+
+/**
+ * Minimal in-process job runner. Each job is ticked on its own interval; a tick
+ * is skipped while the previous one is still running so slow runs never overlap.
+ * Jobs that must only do a unit of work once (e.g. "sweep Asia/Kolkata for
+ * 2026-02-26") use claimRun / finishRun to record it in the JobRun collection.
+ */
+
+export interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+// A "running" record older than this is assumed to belong to a crashed process
+const STALE_RUN_MS = 1000 * 60 * 30;
+
+const jobs: Job[] = [];
+const timers: NodeJS.Timeout[] = [];
+
+export function registerJob(job: Job): void {
+  jobs.push(job);
+}
+
+export function startScheduler(): void {
+  for (const job of jobs) {
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Job ${job.name} error:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    // Run once on boot so work missed while the server was down is caught up
+    void tick();
+    timers.push(setInterval(tick, job.intervalMs));
+  }
+  console.log(`Scheduler started (${jobs.length} job${jobs.length === 1 ? "" : "s"})`);
+}
+
+export function stopScheduler(): void {
+  while (timers.length) clearInterval(timers.pop()!);
+}
+
+/**
+ * Atomically claims a unit of work. Returns null if it was already completed or
+ * is currently being processed by a live run; failed and stale runs are re-claimed.
+ */
+export async function claimRun(jobName: string, runKey: string): Promise<IJobRun | null> {
+  try {
+    return await JobRun.create({ jobName, runKey, status: "running", startedAt: new Date() });
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_RUN_MS);
+  return JobRun.findOneAndUpdate(
+    {
+      jobName,
+      runKey,
+      $or: [
+        { status: "failed" },
+        { status: "running", startedAt: { $lt: staleBefore } },
+      ],
+    },
+    {
+      $set: { status: "running", startedAt: new Date(), processed: 0, updated: 0 },
+      $unset: { finishedAt: 1, error: 1 },
+    },
+    { new: true }
+  );
+}
+
+export async function finishRun(
+  run: IJobRun,
+  result: { processed: number; updated: number; error?: unknown }
+): Promise<void> {
+  await JobRun.findByIdAndUpdate(run._id, {
+    status: result.error ? "failed" : "completed",
+    finishedAt: new Date(),
+    processed: result.processed,
+    updated: result.updated,
+    ...(result.error ? { error: String(result.error) } : {}),
+  });
+}
@@ -0,0 +1,49 @@
+import WebhookDelivery from "../models/WebhookDelivery";
+import WebhookEndpoint from "../models/WebhookEndpoint";
+import { Job } from "./scheduler";
+import { attemptDelivery, getWebhookSettings } from "../utils/webhooks";
+
+const JOB_NAME = "webhookDelivery";
+
+// Deliveries handled per tick; the rest wait for the next one
+const BATCH_SIZE = Number(process.env.WEBHOOK_BATCH_SIZE) || 50;
+
+/**
+ * Sends pending webhook deliveries whose nextAttemptAt has passed. Each one is
+ * claimed first by pushing nextAttemptAt past the request timeout, so two
+ * processes never send the same attempt; attemptDelivery() then records the
+ * outcome and schedules any retry.
+ */
+export async function runWebhookDelivery(now: Date = new Date()): Promise<void> {
+  const { timeoutMs } = getWebhookSettings();
+
+  for (let handled = 0; handled < BATCH_SIZE; handled++) {
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { status: "pending", nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(Date.now() + timeoutMs * 2) } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+    if (!delivery) return;
+
+    const endpoint = await WebhookEndpoint.findById(delivery.endpointId);
+    if (!endpoint || !endpoint.active) {
+      await WebhookDelivery.updateOne(
+        { _id: delivery._id },
+        { $set: { status: "failed", error: "Endpoint was deleted or disabled" }, $unset: { nextAttemptAt: 1 } }
+      );
+      continue;
+    }
+
+    try {
+      await attemptDelivery(delivery, endpoint);
+    } catch (error) {
+      console.error(`WebhookDelivery error (${delivery._id}):`, error);
+    }
+  }
+}
+
+export const webhookDeliveryJob: Job = {
+  name: JOB_NAME,
+  intervalMs: Number(process.env.WEBHOOK_DELIVERY_INTERVAL_MS) || 1000 * 10,
+  run: () => runWebhookDelivery(),
+};
@@ -1,10 +1,12 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import User, { IUser } from "../models/User";
+import Session from "../models/Session";
 
 
 export interface AuthRequest extends Request {
   user?: IUser;
+  sessionId?: string;
 }
 
 export const authenticate = async (
@@ -21,8 +23,19 @@ export const authenticate = async (
 
     const token = authHeader.split(" ")[1];
     const JWT_SECRET = process.env.JWT_SECRET as string; // Read here
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; sessionId?: string };
+
+    // Access tokens are bound to a session so logout / revocation takes effect immediately
+    const sessionActive = decoded.sessionId && await Session.exists({
+      _id: decoded.sessionId,
+      userId: decoded.userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+    if (!sessionActive) {
+      return res.status(401).json({ error: "Session expired or revoked" });
+    }
+
     const user = await User.findById(decoded.userId).select("-password");
 
     if (!user) {
@@ -30,12 +43,26 @@ export const authenticate = async (
     }
 
     req.user = user;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     return res.status(401).json({ error: "Invalid token" });
   }
 };
 
+// Like authenticate, but lets anonymous requests through (req.user stays undefined).
+// A token that is present but invalid is still rejected.
+export const optionalAuthenticate = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.headers.authorization) {
+    return next();
+  }
+  return authenticate(req, res, next);
+};
+
 // Admin-only middleware (must be used after authenticate)
 export const adminOnly = (
   req: AuthRequest,
@@ -53,7 +80,26 @@ export const adminOnly = (
   next();
 };
 
-export const generateToken = (userId: string): string => {
+// Blocks unverified accounts when REQUIRE_EMAIL_VERIFICATION=true (must be used after authenticate)
+export const requireVerifiedEmail = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (process.env.REQUIRE_EMAIL_VERIFICATION !== "true") {
+    return next();
+  }
+
+  if (!req.user?.emailVerified) {
+    return res.status(403).json({ error: "Please verify your email address first" });
+  }
+
+  next();
+};
+
+// Short-lived — clients renew via POST /api/auth/refresh with their refresh token
+export const generateAccessToken = (userId: string, sessionId: string): string => {
   const JWT_SECRET = process.env.JWT_SECRET as string;
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: "7d" });
+  const expiresIn = (process.env.ACCESS_TOKEN_TTL || "15m") as jwt.SignOptions["expiresIn"];
+  return jwt.sign({ userId, sessionId }, JWT_SECRET, { expiresIn });
 };
\ No newline at end of file
@@ -4,7 +4,8 @@ import { ZodSchema, ZodError } from "zod";
 export const validate = (schema: ZodSchema) => {
   return (req: Request, res: Response, next: NextFunction) => {
     try {
-      schema.parse(req.body);
+      // Handlers only ever see the parsed body: unknown keys are dropped, defaults applied
+      req.body = schema.parse(req.body);
       next();
     } catch (error) {
       if (error instanceof ZodError) {
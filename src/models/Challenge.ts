@@ -1,18 +1,55 @@
 import { Schema, model, Document, Types } from "mongoose";
 
+export type CompletionCriteria = "consecutive" | "total";
+export type ChallengeVisibility = "public" | "private";
+
+export interface ITemplateHabit {
+  _id: Types.ObjectId;
+  title: string;
+  required: boolean;                      // required habits can't be deleted from an enrollment
+}
+
 export interface IChallenge extends Document {
   _id: Types.ObjectId;
   title: string;
   description?: string;
   durationDays: number;
+  visibility: ChallengeVisibility;        // private challenges are invite-only and never listed
+  ownerId?: Types.ObjectId;               // user who created a private challenge
+  startingLives: number;                  // lives each enrollment starts with
+  missedDayResetsStreak: boolean;         // false: a missed day only costs a life
+  completionCriteria: CompletionCriteria; // "consecutive": streak ≥ durationDays, "total": completed days ≥ durationDays
+  minHabits: number;                      // habits required before days can be logged
+  maxHabits?: number;                     // cap on habits per enrollment (unlimited if unset)
+  templateHabits: ITemplateHabit[];       // created for every participant on join
+  cohortOnly: boolean;                    // joins must go through a scheduled cohort
+  maxPausedDays: number;                  // paused days allowed per enrollment (0 disables pausing)
   createdAt: Date;
 }
 
+const templateHabitSchema = new Schema<ITemplateHabit>({
+  title: { type: String, required: true },
+  required: { type: Boolean, default: true },
+});
+
 const challengeSchema = new Schema<IChallenge>({
   title: { type: String, required: true },
   description: String,
   durationDays: { type: Number, required: true },
+  visibility: { type: String, enum: ["public", "private"], default: "public" },
+  ownerId: { type: Schema.Types.ObjectId, ref: "User" },
+  startingLives: { type: Number, default: 5, min: 1 },
+  missedDayResetsStreak: { type: Boolean, default: false },
+  completionCriteria: { type: String, enum: ["consecutive", "total"], default: "consecutive" },
+  minHabits: { type: Number, default: 1, min: 1 },
+  maxHabits: { type: Number, min: 1 },
+  templateHabits: { type: [templateHabitSchema], default: [] },
+  cohortOnly: { type: Boolean, default: false },
+  maxPausedDays: { type: Number, default: 7, min: 0 },
   createdAt: { type: Date, default: Date.now }
 });
 
+challengeSchema.index({ visibility: 1, createdAt: -1 });
+challengeSchema.index({ ownerId: 1 });
+
 export default model<IChallenge>("Challenge", challengeSchema);
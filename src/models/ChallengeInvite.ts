@@ -0,0 +1,28 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export interface IChallengeInvite extends Document {
+  _id: Types.ObjectId;
+  challengeId: Types.ObjectId;
+  code: string;                 // shared with invitees, e.g. "K7Q2-MX9P"
+  createdBy: Types.ObjectId;
+  expiresAt?: Date;             // never expires if unset
+  maxUses?: number;             // unlimited if unset
+  uses: number;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+const challengeInviteSchema = new Schema<IChallengeInvite>({
+  challengeId: { type: Schema.Types.ObjectId, ref: "Challenge", required: true },
+  code: { type: String, required: true, unique: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  expiresAt: Date,
+  maxUses: { type: Number, min: 1 },
+  uses: { type: Number, default: 0 },
+  revokedAt: Date,
+  createdAt: { type: Date, default: Date.now },
+});
+
+challengeInviteSchema.index({ challengeId: 1, createdAt: -1 });
+
+export default model<IChallengeInvite>("ChallengeInvite", challengeInviteSchema);
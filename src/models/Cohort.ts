@@ -0,0 +1,33 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+/**
+ * A scheduled edition of a challenge. Participants register during the
+ * registration window and all start on the same date; joins after the window
+ * closes are rejected. Enrollments point back here via UserChallenge.cohortId.
+ */
+export interface ICohort extends Document {
+  _id: Types.ObjectId;
+  challengeId: Types.ObjectId;
+  name: string;                 // e.g. "January 2026"
+  registrationOpensAt: Date;
+  registrationClosesAt: Date;   // never after startDate
+  startDate: Date;              // common start for every participant
+  endDate?: Date;               // enrollments still active afterwards fail (open-ended if unset)
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+}
+
+const cohortSchema = new Schema<ICohort>({
+  challengeId: { type: Schema.Types.ObjectId, ref: "Challenge", required: true },
+  name: { type: String, required: true },
+  registrationOpensAt: { type: Date, required: true },
+  registrationClosesAt: { type: Date, required: true },
+  startDate: { type: Date, required: true },
+  endDate: Date,
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+cohortSchema.index({ challengeId: 1, startDate: 1 });
+
+export default model<ICohort>("Cohort", cohortSchema);
@@ -0,0 +1,35 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type DigestKind = "weekly" | "monthly";
+
+/**
+ * One scheduled digest for one user and period. The unique index claims the
+ * period before anything is sent, so a digest goes out at most once however
+ * often the dispatcher runs.
+ */
+export interface IDigestDelivery extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  kind: DigestKind;
+  periodStart: string;          // local "YYYY-MM-DD", inclusive
+  periodEnd: string;            // local "YYYY-MM-DD", inclusive
+  status: "pending" | "sent" | "skipped" | "failed";
+  reason?: string;              // why it was skipped / failed
+  createdAt: Date;
+  sentAt?: Date;
+}
+
+const digestDeliverySchema = new Schema<IDigestDelivery>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  kind: { type: String, enum: ["weekly", "monthly"], required: true },
+  periodStart: { type: String, required: true },
+  periodEnd: { type: String, required: true },
+  status: { type: String, enum: ["pending", "sent", "skipped", "failed"], default: "pending" },
+  reason: String,
+  createdAt: { type: Date, default: Date.now },
+  sentAt: Date,
+});
+
+digestDeliverySchema.index({ userId: 1, kind: 1, periodStart: 1 }, { unique: true });
+
+export default model<IDigestDelivery>("DigestDelivery", digestDeliverySchema);
@@ -0,0 +1,24 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export interface IEmailVerificationToken extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  tokenHash: string;        // sha256 of the token sent by email — the raw token is never stored
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+const emailVerificationTokenSchema = new Schema<IEmailVerificationToken>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  expiresAt: { type: Date, required: true },
+  usedAt: Date,
+  createdAt: { type: Date, default: Date.now },
+});
+
+emailVerificationTokenSchema.index({ userId: 1 });
+// Expired tokens are useless — let MongoDB clean them up
+emailVerificationTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IEmailVerificationToken>("EmailVerificationToken", emailVerificationTokenSchema);
@@ -6,6 +6,8 @@ export interface IHabit extends Document {
   challenge_id: Types.ObjectId;         // challenge this habit belongs to
   userChallenge_id: Types.ObjectId;     // specific enrollment this habit belongs to
   title: string;                        // habit name
+  templateHabitId?: Types.ObjectId;     // set when created from the challenge's template
+  isRequired: boolean;                  // required template habits can't be deleted
   createdAt: Date;
 }
 
@@ -14,6 +16,8 @@ const habitSchema = new Schema<IHabit>({
   challenge_id: { type: Schema.Types.ObjectId, ref: "Challenge", required: true },
   userChallenge_id: { type: Schema.Types.ObjectId, ref: "UserChallenge", required: true },
   title: { type: String, required: true },
+  templateHabitId: { type: Schema.Types.ObjectId },
+  isRequired: { type: Boolean, default: false },
   createdAt: { type: Date, default: Date.now }
 });
 
@@ -4,11 +4,21 @@ export interface IHabitLog extends Document {
   _id: Types.ObjectId;
   habit_id: Types.ObjectId;
   dateCompleted: Date;
+  note?: string;
+  mood?: number;          // 1–5
+  energy?: number;        // 1–5
+  evidenceUrl?: string;   // link to a photo / proof
+  updatedAt?: Date;
 }
 
 const habitLogSchema = new Schema<IHabitLog>({
   habit_id: { type: Schema.Types.ObjectId, ref: "Habit", required: true },
-  dateCompleted: { type: Date, required: true }
+  dateCompleted: { type: Date, required: true },
+  note: { type: String, maxlength: 500 },
+  mood: { type: Number, min: 1, max: 5 },
+  energy: { type: Number, min: 1, max: 5 },
+  evidenceUrl: String,
+  updatedAt: Date,
 });
 
 // Prevent duplicate entries for same day
@@ -0,0 +1,31 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type JobRunStatus = "running" | "completed" | "failed";
+
+export interface IJobRun extends Document {
+  _id: Types.ObjectId;
+  jobName: string;
+  runKey: string;           // identifies one unit of work, e.g. "Asia/Kolkata:2026-02-26"
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  processed: number;        // documents examined
+  updated: number;          // documents changed
+  error?: string;
+}
+
+const jobRunSchema = new Schema<IJobRun>({
+  jobName: { type: String, required: true },
+  runKey: { type: String, required: true },
+  status: { type: String, enum: ["running", "completed", "failed"], default: "running" },
+  startedAt: { type: Date, default: Date.now },
+  finishedAt: Date,
+  processed: { type: Number, default: 0 },
+  updated: { type: Number, default: 0 },
+  error: String,
+});
+
+// One record per unit of work — makes claiming a run atomic across restarts
+jobRunSchema.index({ jobName: 1, runKey: 1 }, { unique: true });
+
+export default model<IJobRun>("JobRun", jobRunSchema);
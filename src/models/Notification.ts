@@ -0,0 +1,52 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export const NOTIFICATION_TYPES = [
+  "reminder",
+  "lives_lost",
+  "challenge_completed",
+  "challenge_failed",
+  "achievement_earned",
+  "invite_accepted",
+  "team_member_joined",
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/**
+ * An entry in a user's in-app notification center. Producers go through
+ * utils/notifications.ts, which honours the user's per-type preferences;
+ * `dedupeKey` makes an event that can be detected from several places (e.g. a
+ * lost life, seen by both the sweep and the progress view) notify only once.
+ */
+export interface INotification extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link?: string;
+  data?: Record<string, unknown>;   // ids of whatever the notification is about
+  dedupeKey?: string;
+  readAt?: Date;                    // unread while unset
+  createdAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  type: { type: String, enum: NOTIFICATION_TYPES, required: true },
+  title: { type: String, required: true },
+  body: { type: String, required: true },
+  link: String,
+  data: Schema.Types.Mixed,
+  dedupeKey: String,
+  readAt: Date,
+  createdAt: { type: Date, default: Date.now },
+});
+
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ userId: 1, readAt: 1 });
+notificationSchema.index(
+  { userId: 1, dedupeKey: 1 },
+  { unique: true, partialFilterExpression: { dedupeKey: { $exists: true } } }
+);
+
+export default model<INotification>("Notification", notificationSchema);
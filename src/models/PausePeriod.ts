@@ -0,0 +1,21 @@
+import { Schema, Types } from "mongoose";
+
+/**
+ * A pause ("vacation mode") on an enrollment or personal habit. Paused days are
+ * local calendar days ("YYYY-MM-DD" in the user's timezone) that count neither
+ * for nor against the user: no missed days, no broken streaks, no effect on rates.
+ */
+export interface IPausePeriod {
+  _id: Types.ObjectId;
+  startDate: string;            // first paused day
+  endDate?: string;             // last paused day (inclusive); open-ended until resumed if unset
+  reason?: string;
+  createdAt: Date;
+}
+
+export const pausePeriodSchema = new Schema<IPausePeriod>({
+  startDate: { type: String, required: true },
+  endDate: String,
+  reason: String,
+  createdAt: { type: Date, default: Date.now },
+});
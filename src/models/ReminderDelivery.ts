@@ -0,0 +1,50 @@
+import { Schema, model, Document, Types } from "mongoose";
+import { ReminderChannelName } from "./User";
+
+export type ReminderTargetType = "habit" | "challenge";
+export type ReminderDeliveryStatus = "pending" | "sent" | "skipped" | "failed";
+
+/**
+ * One reminder slot (a habit's or enrollment's reminder time on a local day)
+ * and what became of it. The unique index claims each slot once, so a reminder
+ * is never sent twice however often the dispatcher runs. Deliveries through the
+ * "in_app" channel double as the user's in-app reminder list.
+ */
+export interface IReminderDelivery extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  targetType: ReminderTargetType;
+  targetId: Types.ObjectId;     // UserHabit or UserChallenge
+  date: string;                 // local "YYYY-MM-DD"
+  time: string;                 // local "HH:mm" reminder time
+  status: ReminderDeliveryStatus;
+  reason?: string;              // why it was skipped
+  title?: string;
+  body?: string;
+  channels: { channel: ReminderChannelName; ok: boolean; error?: string }[];
+  createdAt: Date;
+  sentAt?: Date;
+}
+
+const reminderDeliverySchema = new Schema<IReminderDelivery>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  targetType: { type: String, enum: ["habit", "challenge"], required: true },
+  targetId: { type: Schema.Types.ObjectId, required: true },
+  date: { type: String, required: true },
+  time: { type: String, required: true },
+  status: { type: String, enum: ["pending", "sent", "skipped", "failed"], default: "pending" },
+  reason: String,
+  title: String,
+  body: String,
+  channels: {
+    type: [new Schema({ channel: String, ok: Boolean, error: String }, { _id: false })],
+    default: [],
+  },
+  createdAt: { type: Date, default: Date.now },
+  sentAt: Date,
+});
+
+reminderDeliverySchema.index({ targetType: 1, targetId: 1, date: 1, time: 1 }, { unique: true });
+reminderDeliverySchema.index({ userId: 1, createdAt: -1 });
+
+export default model<IReminderDelivery>("ReminderDelivery", reminderDeliverySchema);
@@ -0,0 +1,45 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export interface IRoutineStep {
+  _id: Types.ObjectId;
+  userHabitId?: Types.ObjectId;   // a personal habit — checking the step logs it
+  title?: string;                 // … or a free-text item
+  startTime: string;              // local "HH:mm"
+  durationMinutes: number;
+}
+
+/**
+ * A time-blocked sequence of steps on the days of the week it applies to.
+ * Steps run in array order; their times are local to the user's timezone.
+ */
+export interface IRoutine extends Document {
+  _id: Types.ObjectId;
+  user_id: Types.ObjectId;
+  name: string;
+  description?: string;
+  weekdays: number[];       // 0 = Sunday … 6 = Saturday
+  steps: IRoutineStep[];
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const routineStepSchema = new Schema<IRoutineStep>({
+  userHabitId: { type: Schema.Types.ObjectId, ref: "UserHabit" },
+  title: String,
+  startTime: { type: String, required: true },
+  durationMinutes: { type: Number, required: true, min: 1 },
+});
+
+const routineSchema = new Schema<IRoutine>({
+  user_id: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  name: { type: String, required: true },
+  description: String,
+  weekdays: { type: [Number], default: () => [0, 1, 2, 3, 4, 5, 6] },
+  steps: { type: [routineStepSchema], default: [] },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: Date,
+});
+
+routineSchema.index({ user_id: 1, createdAt: 1 });
+
+export default model<IRoutine>("Routine", routineSchema);
@@ -0,0 +1,26 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+/**
+ * A free-text routine step checked off on a local day. Habit steps need no
+ * record of their own — they count as done when the habit is logged that day.
+ */
+export interface IRoutineCheck extends Document {
+  _id: Types.ObjectId;
+  routineId: Types.ObjectId;
+  stepId: Types.ObjectId;
+  user_id: Types.ObjectId;
+  date: string;             // local "YYYY-MM-DD"
+  checkedAt: Date;
+}
+
+const routineCheckSchema = new Schema<IRoutineCheck>({
+  routineId: { type: Schema.Types.ObjectId, ref: "Routine", required: true },
+  stepId: { type: Schema.Types.ObjectId, required: true },
+  user_id: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  date: { type: String, required: true },
+  checkedAt: { type: Date, default: Date.now },
+});
+
+routineCheckSchema.index({ routineId: 1, stepId: 1, date: 1 }, { unique: true });
+
+export default model<IRoutineCheck>("RoutineCheck", routineCheckSchema);
@@ -0,0 +1,34 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export interface ISession extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  refreshTokenHash: string;             // sha256 of the current refresh token
+  previousTokenHash?: string;           // last rotated-out token, kept to detect reuse
+  userAgent?: string;
+  ip?: string;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  refreshTokenHash: { type: String, required: true },
+  previousTokenHash: String,
+  userAgent: String,
+  ip: String,
+  expiresAt: { type: Date, required: true },
+  lastUsedAt: { type: Date, default: Date.now },
+  revokedAt: Date,
+  createdAt: { type: Date, default: Date.now },
+});
+
+sessionSchema.index({ refreshTokenHash: 1 }, { unique: true });
+sessionSchema.index({ previousTokenHash: 1 }, { sparse: true });
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+// Let MongoDB drop sessions once the refresh token can no longer be used
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<ISession>("Session", sessionSchema);
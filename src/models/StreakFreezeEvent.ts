@@ -0,0 +1,36 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type StreakFreezeEventType = "earned" | "consumed";
+export type StreakFreezeScope = "habit" | "challenge";
+
+/**
+ * Ledger of streak freezes. The spendable balance lives on the user
+ * (User.streakFreezes); these entries record where each freeze came from and
+ * which missed day it covered. The unique index keeps awarding / consuming
+ * idempotent when the same day is evaluated more than once.
+ */
+export interface IStreakFreezeEvent extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  type: StreakFreezeEventType;
+  scope: StreakFreezeScope;
+  targetId: Types.ObjectId;     // UserHabit (scope "habit") or UserChallenge (scope "challenge")
+  date: string;                 // local "YYYY-MM-DD": the day the run was reached / the day covered
+  streak?: number;              // "earned": the run length that earned it
+  createdAt: Date;
+}
+
+const streakFreezeEventSchema = new Schema<IStreakFreezeEvent>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  type: { type: String, enum: ["earned", "consumed"], required: true },
+  scope: { type: String, enum: ["habit", "challenge"], required: true },
+  targetId: { type: Schema.Types.ObjectId, required: true },
+  date: { type: String, required: true },
+  streak: Number,
+  createdAt: { type: Date, default: Date.now },
+});
+
+streakFreezeEventSchema.index({ userId: 1, type: 1, scope: 1, targetId: 1, date: 1 }, { unique: true });
+streakFreezeEventSchema.index({ userId: 1, createdAt: -1 });
+
+export default model<IStreakFreezeEvent>("StreakFreezeEvent", streakFreezeEventSchema);
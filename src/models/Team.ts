@@ -0,0 +1,54 @@
+import { Schema, model, Document, Types } from "mongoose";
+import { ChallengeStatus } from "./UserChallenge";
+
+/**
+ * A group enrollment. Each member still has their own UserChallenge (holding
+ * their habits and logs, linked via teamId), but lives, streak and the final
+ * outcome are shared and tracked here: a team day only counts once every member
+ * has completed all of their habits for it.
+ */
+export interface ITeam extends Document {
+  _id: Types.ObjectId;
+  challengeId: Types.ObjectId;
+  name: string;
+  ownerId: Types.ObjectId;
+  memberIds: Types.ObjectId[];
+  code: string;                 // join code shared with teammates
+  timezone: string;             // day boundaries for the team (the creator's timezone)
+  startDate: Date;
+  status: ChallengeStatus;
+  progress: {
+    completedDays: number;
+    currentStreak: number;
+    lastCompletedDate?: Date;
+  };
+  livesRemaining: number;
+  missedDays: number;
+  completedOn?: Date;
+  createdAt: Date;
+}
+
+const teamSchema = new Schema<ITeam>({
+  challengeId: { type: Schema.Types.ObjectId, ref: "Challenge", required: true },
+  name: { type: String, required: true },
+  ownerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  memberIds: [{ type: Schema.Types.ObjectId, ref: "User" }],
+  code: { type: String, required: true, unique: true },
+  timezone: { type: String, default: "Asia/Kolkata" },
+  startDate: { type: Date, default: Date.now },
+  status: { type: String, enum: ["active", "completed", "failed"], default: "active" },
+  progress: {
+    completedDays: { type: Number, default: 0 },
+    currentStreak: { type: Number, default: 0 },
+    lastCompletedDate: Date,
+  },
+  livesRemaining: { type: Number, default: 5 },
+  missedDays: { type: Number, default: 0 },
+  completedOn: Date,
+  createdAt: { type: Date, default: Date.now },
+});
+
+teamSchema.index({ challengeId: 1, status: 1 });
+teamSchema.index({ memberIds: 1 });
+
+export default model<ITeam>("Team", teamSchema);
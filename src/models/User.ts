@@ -1,6 +1,20 @@
 import { Schema, model, Document, Types } from "mongoose";
+import { NOTIFICATION_TYPES, NotificationType } from "./Notification";
 
 export type UserRole = "user" | "admin";
+export type ReminderChannelName = "in_app" | "email" | "webhook";
+
+export interface IReminderSettings {
+  channels: ReminderChannelName[];          // where reminders are delivered (none = off)
+  quietHours?: { start: string; end: string };  // local "HH:mm"; may wrap past midnight
+  webhookUrl?: string;                      // required for the "webhook" channel
+}
+
+export interface IDigestSettings {
+  weekly: boolean;                          // digests are opt-in: both kinds start off
+  weeklyDay: number;                        // 0 = Sunday … 6 = Saturday; covers the 7 days before it
+  monthly: boolean;                         // sent on the 1st, covering the previous month
+}
 
 export interface IUser extends Document {
   _id: Types.ObjectId;
@@ -10,9 +24,38 @@ export interface IUser extends Document {
   role: UserRole;
   avatar?: string;
   timezone: string;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  hideFromLeaderboards: boolean;   // shown as "Anonymous" on challenge leaderboards
+  streakFreezes: number;           // unspent streak freezes (see utils/streakFreeze.ts)
+  xp: number;                      // running total of the XP ledger (see utils/xp.ts)
+  reminderSettings: IReminderSettings;
+  mutedNotificationTypes: NotificationType[];   // every other type is delivered
+  digestSettings: IDigestSettings;
   createdAt: Date;
 }
 
+const reminderSettingsSchema = new Schema<IReminderSettings>(
+  {
+    channels: { type: [String], enum: ["in_app", "email", "webhook"], default: () => ["in_app"] },
+    quietHours: {
+      type: new Schema({ start: String, end: String }, { _id: false }),
+      default: undefined,
+    },
+    webhookUrl: String,
+  },
+  { _id: false }
+);
+
+const digestSettingsSchema = new Schema<IDigestSettings>(
+  {
+    weekly: { type: Boolean, default: false },
+    weeklyDay: { type: Number, min: 0, max: 6, default: 1 },
+    monthly: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
 const userSchema = new Schema<IUser>({
   name: { type: String, required: true },
   email: { type: String, required: true, unique: true },
@@ -20,6 +63,14 @@ const userSchema = new Schema<IUser>({
   role: { type: String, enum: ["user", "admin"], default: "user" },
   avatar: String,
   timezone: { type: String, default: "Asia/Kolkata" },
+  emailVerified: { type: Boolean, default: false },
+  emailVerifiedAt: Date,
+  hideFromLeaderboards: { type: Boolean, default: false },
+  streakFreezes: { type: Number, default: 0, min: 0 },
+  xp: { type: Number, default: 0 },
+  reminderSettings: { type: reminderSettingsSchema, default: () => ({}) },
+  mutedNotificationTypes: { type: [String], enum: NOTIFICATION_TYPES, default: [] },
+  digestSettings: { type: digestSettingsSchema, default: () => ({}) },
   createdAt: { type: Date, default: Date.now }
 });
 
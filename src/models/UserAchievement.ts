@@ -0,0 +1,26 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+/**
+ * An achievement a user has earned. `key` refers to a rule in
+ * utils/achievements.ts; each one is earned at most once per user.
+ */
+export interface IUserAchievement extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  key: string;
+  earnedAt: Date;
+  userChallengeId?: Types.ObjectId;   // the enrollment that triggered it, if any
+  userHabitId?: Types.ObjectId;       // the personal habit that triggered it, if any
+}
+
+const userAchievementSchema = new Schema<IUserAchievement>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  key: { type: String, required: true },
+  earnedAt: { type: Date, default: Date.now },
+  userChallengeId: { type: Schema.Types.ObjectId, ref: "UserChallenge" },
+  userHabitId: { type: Schema.Types.ObjectId, ref: "UserHabit" },
+});
+
+userAchievementSchema.index({ userId: 1, key: 1 }, { unique: true });
+
+export default model<IUserAchievement>("UserAchievement", userAchievementSchema);
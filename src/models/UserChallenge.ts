@@ -1,12 +1,20 @@
 import { Schema, model, Document, Types } from "mongoose";
+import { IPausePeriod, pausePeriodSchema } from "./PausePeriod";
 
-export type ChallengeStatus = "active" | "completed" | "failed";
+export type ChallengeStatus = "active" | "completed" | "failed" | "abandoned";
+
+export const CHALLENGE_STATUSES: ChallengeStatus[] = ["active", "completed", "failed", "abandoned"];
 
 export interface IUserChallenge extends Document {
   _id: Types.ObjectId;
   userId: Types.ObjectId;
   challengeId: Types.ObjectId;
+  teamId?: Types.ObjectId;      // set for team members — lives and outcome live on the Team
+  cohortId?: Types.ObjectId;    // set when joined through a scheduled cohort
+  attempt: number;              // 1 for the first enrollment in a challenge, then 2, 3, …
+  previousAttemptId?: Types.ObjectId; // the user's earlier enrollment in the same challenge
   startDate: Date;
+  endDate?: Date;               // cohort end — still active afterwards means failed
   status: ChallengeStatus;
   progress: {
     completedDays: number;
@@ -15,15 +23,26 @@ export interface IUserChallenge extends Document {
   };
   livesRemaining: number;
   missedDays: number;
+  pauses: IPausePeriod[];       // paused days cost no lives (capped per challenge)
+  frozenDates: string[];        // missed local days covered by a streak freeze
+  reminderTimes: string[];      // local "HH:mm" times to be reminded at (see jobs/reminderDispatch.ts)
   completedOn?: Date;
+  abandonedAt?: Date;           // set when the user left — the enrollment and its logs are kept
+  removedAt?: Date;             // set when a manager removed the member (also abandoned); no restart from it
+  removedBy?: Types.ObjectId;
   createdAt: Date;
 }
 
 const userChallengeSchema = new Schema<IUserChallenge>({
   userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
   challengeId: { type: Schema.Types.ObjectId, ref: "Challenge", required: true },
+  teamId: { type: Schema.Types.ObjectId, ref: "Team" },
+  cohortId: { type: Schema.Types.ObjectId, ref: "Cohort" },
+  attempt: { type: Number, default: 1 },
+  previousAttemptId: { type: Schema.Types.ObjectId, ref: "UserChallenge" },
   startDate: { type: Date, default: Date.now },
-  status: { type: String, enum: ["active", "completed", "failed"], default: "active" },
+  endDate: Date,
+  status: { type: String, enum: CHALLENGE_STATUSES, default: "active" },
   progress: {
     completedDays: { type: Number, default: 0 },
     currentStreak: { type: Number, default: 0 },
@@ -31,7 +50,13 @@ const userChallengeSchema = new Schema<IUserChallenge>({
   },
   livesRemaining: { type: Number, default: 5 },
   missedDays: { type: Number, default: 0 },
+  pauses: { type: [pausePeriodSchema], default: [] },
+  frozenDates: { type: [String], default: [] },
+  reminderTimes: { type: [String], default: [] },
   completedOn: Date,
+  abandonedAt: Date,
+  removedAt: Date,
+  removedBy: { type: Schema.Types.ObjectId, ref: "User" },
   createdAt: { type: Date, default: Date.now },
 });
 
@@ -43,4 +68,7 @@ userChallengeSchema.index(
   }
 );
 
+userChallengeSchema.index({ cohortId: 1, status: 1 });
+userChallengeSchema.index({ userId: 1, status: 1, createdAt: -1 });
+
 export default model<IUserChallenge>("UserChallenge", userChallengeSchema);
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { Schema, model, Document, Types } from "mongoose";
+import { HabitSchedule } from "../utils/habitSchedule";
+import { IPausePeriod, pausePeriodSchema } from "./PausePeriod";
 
 export interface IUserHabit extends Document {
   _id: Types.ObjectId;
@@ -6,15 +8,38 @@ export interface IUserHabit extends Document {
   title: string;
   description?: string;
   color?: string;        // optional UI color tag
+  schedule: HabitSchedule;  // which days count as "expected" (defaults to daily)
+  target?: number;       // quantitative habits: amount per day that counts as done
+  unit?: string;         // e.g. "glasses", "pages", "minutes"
+  pauses: IPausePeriod[];   // paused days are left out of streaks and rates
+  frozenDates: string[];    // missed local days covered by a streak freeze
+  reminderTimes: string[];  // local "HH:mm" times to be reminded at (see jobs/reminderDispatch.ts)
   isArchived: boolean;
   createdAt: Date;
 }
 
+const habitScheduleSchema = new Schema<HabitSchedule>(
+  {
+    type: { type: String, enum: ["daily", "weekdays", "weekly", "interval"], default: "daily" },
+    weekdays: { type: [Number], default: undefined },
+    timesPerWeek: Number,
+    everyNDays: Number,
+    anchorDate: String,
+  },
+  { _id: false }
+);
+
 const userHabitSchema = new Schema<IUserHabit>({
   user_id: { type: Schema.Types.ObjectId, ref: "User", required: true },
   title: { type: String, required: true },
   description: { type: String },
   color: { type: String },
+  schedule: { type: habitScheduleSchema, default: () => ({ type: "daily" }) },
+  target: { type: Number, min: 0 },
+  unit: { type: String },
+  pauses: { type: [pausePeriodSchema], default: [] },
+  frozenDates: { type: [String], default: [] },
+  reminderTimes: { type: [String], default: [] },
   isArchived: { type: Boolean, default: false },
   createdAt: { type: Date, default: Date.now },
 });
@@ -4,14 +4,26 @@ export interface IUserHabitLog extends Document {
   _id: Types.ObjectId;
   userHabit_id: Types.ObjectId;
   dateCompleted: Date;
+  value: number;          // amount logged that day (summed across increments); 1 for yes/no habits
+  note?: string;
+  mood?: number;          // 1–5
+  energy?: number;        // 1–5
+  evidenceUrl?: string;   // link to a photo / proof
+  updatedAt?: Date;
 }
 
 const userHabitLogSchema = new Schema<IUserHabitLog>({
   userHabit_id: { type: Schema.Types.ObjectId, ref: "UserHabit", required: true },
   dateCompleted: { type: Date, required: true },
+  value: { type: Number, default: 1, min: 0 },
+  note: { type: String, maxlength: 500 },
+  mood: { type: Number, min: 1, max: 5 },
+  energy: { type: Number, min: 1, max: 5 },
+  evidenceUrl: String,
+  updatedAt: Date,
 });
 
-// Prevent duplicate completion for the same day
+// One log per habit per day — increments on quantitative habits update `value` in place
 userHabitLogSchema.index({ userHabit_id: 1, dateCompleted: 1 }, { unique: true });
 
 export default model<IUserHabitLog>("UserHabitLog", userHabitLogSchema);
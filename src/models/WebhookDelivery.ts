@@ -0,0 +1,43 @@
+import { Schema, model, Document, Types } from "mongoose";
+import { WebhookEvent } from "./WebhookEndpoint";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+/**
+ * One event sent (or to be sent) to one endpoint — both the retry queue and the
+ * endpoint's delivery log. Pending deliveries are picked up by the
+ * webhookDelivery job once `nextAttemptAt` has passed.
+ */
+export interface IWebhookDelivery extends Document {
+  _id: Types.ObjectId;
+  endpointId: Types.ObjectId;
+  userId: Types.ObjectId;
+  event: WebhookEvent | "ping";
+  payload: Record<string, unknown>;   // the exact JSON body sent on every attempt
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;               // unset once succeeded / given up
+  lastAttemptAt?: Date;
+  responseStatus?: number;            // HTTP status of the last attempt
+  error?: string;                     // why the last attempt failed
+  createdAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>({
+  endpointId: { type: Schema.Types.ObjectId, ref: "WebhookEndpoint", required: true },
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  event: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  status: { type: String, enum: ["pending", "succeeded", "failed"], default: "pending" },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: Date,
+  lastAttemptAt: Date,
+  responseStatus: Number,
+  error: String,
+  createdAt: { type: Date, default: Date.now },
+});
+
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+
+export default model<IWebhookDelivery>("WebhookDelivery", webhookDeliverySchema);
@@ -0,0 +1,38 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export const WEBHOOK_EVENTS = [
+  "habit.logged",
+  "habit.unlogged",
+  "challenge.day_completed",
+  "challenge.completed",
+  "challenge.failed",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** A URL a user registered to receive their own habit / challenge events (see utils/webhooks.ts). */
+export interface IWebhookEndpoint extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];       // subscribed events
+  secret: string;               // HMAC key for the X-Webhook-Signature header
+  active: boolean;              // inactive endpoints get no new deliveries
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const webhookEndpointSchema = new Schema<IWebhookEndpoint>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  url: { type: String, required: true },
+  description: String,
+  events: { type: [String], enum: WEBHOOK_EVENTS, required: true },
+  secret: { type: String, required: true },
+  active: { type: Boolean, default: true },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: Date,
+});
+
+webhookEndpointSchema.index({ userId: 1, active: 1 });
+
+export default model<IWebhookEndpoint>("WebhookEndpoint", webhookEndpointSchema);
@@ -0,0 +1,49 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type XpReason = "habit_logged" | "challenge_day_completed" | "challenge_completed" | "reversal";
+
+/**
+ * XP ledger. The running total lives on the user (User.xp); every change to it
+ * is recorded here. Awards are tied to the log that earned them, so removing
+ * the log reverses them: the award is marked `reversedAt` and a negative
+ * "reversal" entry pointing back at it is added.
+ */
+export interface IXpEvent extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  amount: number;                     // negative for reversals
+  reason: XpReason;
+  logId?: Types.ObjectId;             // HabitLog / UserHabitLog that earned the award
+  userChallengeId?: Types.ObjectId;
+  userHabitId?: Types.ObjectId;
+  date: string;                       // local "YYYY-MM-DD" the award is for
+  reversesId?: Types.ObjectId;        // "reversal": the award it cancels
+  reversedAt?: Date;                  // awards: when it was reversed
+  createdAt: Date;
+}
+
+const xpEventSchema = new Schema<IXpEvent>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  amount: { type: Number, required: true },
+  reason: {
+    type: String,
+    enum: ["habit_logged", "challenge_day_completed", "challenge_completed", "reversal"],
+    required: true,
+  },
+  logId: Schema.Types.ObjectId,
+  userChallengeId: { type: Schema.Types.ObjectId, ref: "UserChallenge" },
+  userHabitId: { type: Schema.Types.ObjectId, ref: "UserHabit" },
+  date: { type: String, required: true },
+  reversesId: Schema.Types.ObjectId,
+  reversedAt: Date,
+  createdAt: { type: Date, default: Date.now },
+});
+
+// Each log earns each kind of award at most once per user (a team's last log completes it for everyone)
+xpEventSchema.index(
+  { userId: 1, logId: 1, reason: 1 },
+  { unique: true, partialFilterExpression: { logId: { $exists: true } } }
+);
+xpEventSchema.index({ userId: 1, createdAt: -1 });
+
+export default model<IXpEvent>("XpEvent", xpEventSchema);
@@ -3,9 +3,19 @@ import {
   register,
   login,
   getMe,
+  getXpHistory,
   updateProfile,
   changePassword,
+  refresh,
+  logout,
+  getSessions,
+  revokeSession,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
   adminGetUsers,
+  adminSendPasswordReset,
 } from "../controllers/authController";
 import { validate } from "../middleware/validate";
 import { authenticate, adminOnly } from "../middleware/auth";
@@ -15,6 +25,9 @@ import {
   updateProfileSchema,
   changePasswordSchema,
   adminCreateUserSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
 } from "../schemas/auth.schema";
 
 const router = Router();
@@ -22,14 +35,24 @@ const router = Router();
 // Public routes
 router.post("/register", validate(registerSchema), register);
 router.post("/login", validate(loginSchema), login);
+router.post("/refresh", validate(refreshTokenSchema), refresh);
+router.post("/logout", validate(refreshTokenSchema), logout);
+router.post("/forgot-password", validate(forgotPasswordSchema), forgotPassword);
+router.post("/reset-password", validate(resetPasswordSchema), resetPassword);
+router.get("/verify-email", verifyEmail);
 
 // Protected routes (any authenticated user)
 router.get("/me", authenticate, getMe);
+router.get("/me/xp", authenticate, getXpHistory);
 router.put("/me", authenticate, validate(updateProfileSchema), updateProfile);
 router.put("/change-password", authenticate, validate(changePasswordSchema), changePassword);
+router.post("/verify-email/resend", authenticate, resendVerificationEmail);
+router.get("/sessions", authenticate, getSessions);
+router.delete("/sessions/:id", authenticate, revokeSession);
 
 // Admin-only routes
 // router.post("/admin/create-user", authenticate, adminOnly, validate(adminCreateUserSchema), adminCreateUser);
 router.get("/admin/users", authenticate, adminOnly, adminGetUsers);
+router.post("/admin/users/:id/reset-password", authenticate, adminOnly, adminSendPasswordReset);
 
 export default router;
\ No newline at end of file
@@ -6,33 +6,67 @@ import {
   updateChallenge,
   deleteChallenge,
   getChallengeStats,
+  getChallengeLeaderboard,
+  getOwnedChallenges,
 } from "../controllers/challengeController";
 import {
   joinChallenge,
+  joinChallengeByCode,
   leaveChallenge,
 } from "../controllers/userChallengeController";
+import {
+  createInvite,
+  getInvites,
+  revokeInvite,
+  getMembers,
+  removeMember,
+} from "../controllers/challengeMemberController";
+import { createTeam } from "../controllers/teamController";
+import {
+  createCohort,
+  getCohorts,
+  updateCohort,
+  deleteCohort,
+} from "../controllers/cohortController";
 import { validate } from "../middleware/validate";
-import { authenticate, adminOnly } from "../middleware/auth";
+import { authenticate, optionalAuthenticate, requireVerifiedEmail } from "../middleware/auth";
 import {
   createChallengeSchema,
   updateChallengeSchema,
+  createInviteSchema,
+  createCohortSchema,
+  updateCohortSchema,
 } from "../schemas/challenge.schema";
-import { joinChallengeSchema } from "../schemas/userChallenge.schema";
+import { joinChallengeSchema, joinByCodeSchema } from "../schemas/userChallenge.schema";
+import { createTeamSchema } from "../schemas/team.schema";
 
 const router = Router();
 
-// Public routes
+// Public routes (private challenges are only visible to their owner / participants)
 router.get("/", getAllChallenges);
-router.get("/:id", getChallengeById);
+router.get("/owned", authenticate, getOwnedChallenges);
+router.get("/:id", optionalAuthenticate, getChallengeById);
+router.get("/:id/cohorts", optionalAuthenticate, getCohorts);
 
 // User routes (authenticated)
-router.post("/:id/join", authenticate, validate(joinChallengeSchema), joinChallenge);
+router.post("/join-by-code", authenticate, requireVerifiedEmail, validate(joinByCodeSchema), joinChallengeByCode);
+router.post("/:id/join", authenticate, requireVerifiedEmail, validate(joinChallengeSchema), joinChallenge);
+router.post("/:id/teams", authenticate, requireVerifiedEmail, validate(createTeamSchema), createTeam);
 router.delete("/:id/leave", authenticate, leaveChallenge);
+router.get("/:id/leaderboard", authenticate, getChallengeLeaderboard);
 
-// Admin-only routes
-router.post("/", authenticate, adminOnly, validate(createChallengeSchema), createChallenge);
-router.put("/:id", authenticate, adminOnly, validate(updateChallengeSchema), updateChallenge);
-router.delete("/:id", authenticate, adminOnly, deleteChallenge);
-router.get("/:id/stats", authenticate, adminOnly, getChallengeStats);
+// Management routes — admins for any challenge, users for the private challenges they own
+router.post("/", authenticate, validate(createChallengeSchema), createChallenge);
+router.put("/:id", authenticate, validate(updateChallengeSchema), updateChallenge);
+router.delete("/:id", authenticate, deleteChallenge);
+router.get("/:id/stats", authenticate, getChallengeStats);
+router.get("/:id/invites", authenticate, getInvites);
+router.post("/:id/invites", authenticate, validate(createInviteSchema), createInvite);
+router.delete("/:id/invites/:inviteId", authenticate, revokeInvite);
+router.get("/:id/members", authenticate, getMembers);
+router.delete("/:id/members/:userId", authenticate, removeMember);
+router.post("/:id/cohorts", authenticate, validate(createCohortSchema), createCohort);
+router.put("/:id/cohorts/:cohortId", authenticate, validate(updateCohortSchema), updateCohort);
+router.delete("/:id/cohorts/:cohortId", authenticate, deleteCohort);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { getDigestSettings, updateDigestSettings, previewDigest } from "../controllers/digestController";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/auth";
+import { updateDigestSettingsSchema } from "../schemas/digest.schema";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/settings", getDigestSettings);
+router.put("/settings", validate(updateDigestSettingsSchema), updateDigestSettings);
+router.get("/preview", previewDigest);
+
+export default router;
@@ -6,10 +6,13 @@ import {
   deleteHabit,
   logHabit,
   unlogHabit,
+  updateHabitLog,
+  getHabitLogs,
 } from "../controllers/habitController";
 import { validate } from "../middleware/validate";
 import { authenticate } from "../middleware/auth";
-import { createHabitSchema, updateHabitSchema } from "../schemas/habit.schema";
+import { createHabitSchema, updateHabitSchema, logHabitSchema } from "../schemas/habit.schema";
+import { updateHabitLogSchema } from "../schemas/habitLog.schema";
 
 const router = Router();
 
@@ -21,7 +24,9 @@ router.put("/:id", validate(updateHabitSchema), updateHabit);
 router.delete("/:id", deleteHabit);
 
 // Habit logging
-router.post("/:id/log", logHabit);
+router.get("/:id/logs", getHabitLogs);
+router.post("/:id/log", validate(logHabitSchema), logHabit);
+router.patch("/:id/log/:date", validate(updateHabitLogSchema), updateHabitLog);
 router.delete("/:id/log/:date", unlogHabit);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { exportMyData } from "../controllers/exportController";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/export", exportMyData);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from "express";
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "../controllers/notificationController";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/auth";
+import { updateNotificationPreferencesSchema } from "../schemas/notification.schema";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getNotifications);
+router.get("/preferences", getNotificationPreferences);
+router.put("/preferences", validate(updateNotificationPreferencesSchema), updateNotificationPreferences);
+router.post("/read-all", markAllNotificationsRead);
+router.post("/:id/read", markNotificationRead);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { getReminders, getReminderSettings, updateReminderSettings } from "../controllers/reminderController";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/auth";
+import { updateReminderSettingsSchema } from "../schemas/reminder.schema";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getReminders);
+router.get("/settings", getReminderSettings);
+router.put("/settings", validate(updateReminderSettingsSchema), updateReminderSettings);
+
+export default router;
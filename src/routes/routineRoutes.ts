@@ -0,0 +1,34 @@
+import { Router } from "express";
+import {
+  createRoutine,
+  getRoutines,
+  getTodayRoutines,
+  getRoutineById,
+  updateRoutine,
+  deleteRoutine,
+  checkRoutine,
+  checkRoutineStep,
+} from "../controllers/routineController";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/auth";
+import { createRoutineSchema, updateRoutineSchema, checkRoutineSchema } from "../schemas/routine.schema";
+
+const router = Router();
+
+router.use(authenticate);
+
+// Today's routines (must be before /:id routes)
+router.get("/today", getTodayRoutines);
+
+// CRUD
+router.get("/", getRoutines);
+router.post("/", validate(createRoutineSchema), createRoutine);
+router.get("/:id", getRoutineById);
+router.put("/:id", validate(updateRoutineSchema), updateRoutine);
+router.delete("/:id", deleteRoutine);
+
+// Checking off
+router.post("/:id/check", validate(checkRoutineSchema), checkRoutine);
+router.post("/:id/steps/:stepId/check", validate(checkRoutineSchema), checkRoutineStep);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from "express";
+import {
+  joinTeam,
+  getTeamProgress,
+  leaveTeam,
+} from "../controllers/teamController";
+import { validate } from "../middleware/validate";
+import { authenticate, requireVerifiedEmail } from "../middleware/auth";
+import { joinTeamSchema } from "../schemas/team.schema";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Team routes (teams are created from a challenge: POST /api/challenges/:id/teams)
+router.post("/join", requireVerifiedEmail, validate(joinTeamSchema), joinTeam);
+router.get("/:teamId", getTeamProgress);
+router.delete("/:teamId/leave", leaveTeam);
+
+export default router;
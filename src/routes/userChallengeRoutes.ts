@@ -4,15 +4,22 @@ import {
   leaveChallenge,
   getMyChallenges,
   getMyChallengeProgress,
+  restartChallenge,
+  pauseChallenge,
+  resumeChallenge,
+  getChallengePauses,
+  setChallengeReminders,
 } from "../controllers/userChallengeController";
 import {
   createHabit,
   getHabits,
 } from "../controllers/habitController";
 import { validate } from "../middleware/validate";
-import { authenticate } from "../middleware/auth";
-import { joinChallengeSchema } from "../schemas/userChallenge.schema";
+import { authenticate, requireVerifiedEmail } from "../middleware/auth";
+import { joinChallengeSchema, restartChallengeSchema } from "../schemas/userChallenge.schema";
 import { createHabitSchema } from "../schemas/habit.schema";
+import { startPauseSchema } from "../schemas/pause.schema";
+import { setRemindersSchema } from "../schemas/reminder.schema";
 
 const router = Router();
 
@@ -22,6 +29,11 @@ router.use(authenticate);
 // User challenge routes
 router.get("/", getMyChallenges);
 router.get("/:userChallengeId", getMyChallengeProgress);
+router.post("/:userChallengeId/restart", requireVerifiedEmail, validate(restartChallengeSchema), restartChallenge);
+router.get("/:userChallengeId/pauses", getChallengePauses);
+router.post("/:userChallengeId/pause", validate(startPauseSchema), pauseChallenge);
+router.post("/:userChallengeId/resume", resumeChallenge);
+router.put("/:userChallengeId/reminders", validate(setRemindersSchema), setChallengeReminders);
 
 // Habit routes scoped to a specific enrollment
 router.get("/:userChallengeId/habits", getHabits);
@@ -8,8 +8,13 @@ import {
   archiveUserHabit,
   logUserHabit,
   unlogUserHabit,
+  updateUserHabitLog,
+  getUserHabitLogs,
   getUserHabitAnalytics,
   getUserHabitsSummary,
+  pauseUserHabit,
+  resumeUserHabit,
+  getUserHabitPauses,
 } from "../controllers/userHabitController";
 import { validate } from "../middleware/validate";
 import { authenticate } from "../middleware/auth";
@@ -18,6 +23,8 @@ import {
   updateUserHabitSchema,
   logUserHabitSchema,
 } from "../schemas/userHabit.schema";
+import { updateHabitLogSchema } from "../schemas/habitLog.schema";
+import { startPauseSchema } from "../schemas/pause.schema";
 
 const router = Router();
 
@@ -35,9 +42,16 @@ router.delete("/:id", deleteUserHabit);
 router.patch("/:id/archive", archiveUserHabit);
 
 // Logging
+router.get("/:id/logs", getUserHabitLogs);
 router.post("/:id/log", validate(logUserHabitSchema), logUserHabit);
+router.patch("/:id/log/:date", validate(updateHabitLogSchema), updateUserHabitLog);
 router.delete("/:id/log/:date", unlogUserHabit);
 
+// Pauses
+router.get("/:id/pauses", getUserHabitPauses);
+router.post("/:id/pause", validate(startPauseSchema), pauseUserHabit);
+router.post("/:id/resume", resumeUserHabit);
+
 // Analytics per habit
 router.get("/:id/analytics", getUserHabitAnalytics);
 
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import {
+  createWebhook,
+  getWebhooks,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  testWebhook,
+} from "../controllers/webhookController";
+import { validate } from "../middleware/validate";
+import { authenticate } from "../middleware/auth";
+import { createWebhookSchema, updateWebhookSchema } from "../schemas/webhook.schema";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getWebhooks);
+router.post("/", validate(createWebhookSchema), createWebhook);
+router.put("/:id", validate(updateWebhookSchema), updateWebhook);
+router.delete("/:id", deleteWebhook);
+router.get("/:id/deliveries", getWebhookDeliveries);
+router.post("/:id/test", testWebhook);
+
+export default router;
@@ -3,8 +3,7 @@ import { isValidTimezone, DEFAULT_TIMEZONE } from "../utils/timezone";
 
 const timezoneField = z
   .string()
-  .refine(isValidTimezone, { message: "Invalid IANA timezone (e.g. 'Asia/Kolkata', 'America/New_York')" })
-  .default(DEFAULT_TIMEZONE);
+  .refine(isValidTimezone, { message: "Invalid IANA timezone (e.g. 'Asia/Kolkata', 'America/New_York')" });
 
 export const registerSchema = z.object({
   name: z
@@ -18,7 +17,8 @@ export const registerSchema = z.object({
     .string()
     .min(6, "Password must be at least 6 characters")
     .max(100, "Password must be less than 100 characters"),
-  timezone: timezoneField.optional(),
+  // Only registration defaults it — on a profile update a missing timezone means "leave it as is"
+  timezone: timezoneField.default(DEFAULT_TIMEZONE),
 });
 
 // Admin can create users with roles
@@ -60,6 +60,9 @@ export const updateProfileSchema = z.object({
     .url("Invalid avatar URL")
     .optional(),
   timezone: timezoneField.optional(),
+  hideFromLeaderboards: z
+    .boolean()
+    .optional(),
 });
 
 export const changePasswordSchema = z.object({
@@ -78,9 +81,40 @@ export const changePasswordSchema = z.object({
   path: ["confirmPassword"],
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z
+    .string()
+    .min(1, "Refresh token is required"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z
+    .string()
+    .min(1, "Reset token is required"),
+  newPassword: z
+    .string()
+    .min(6, "New password must be at least 6 characters")
+    .max(100, "New password must be less than 100 characters"),
+  confirmPassword: z
+    .string()
+    .min(1, "Please confirm your password"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
 // Type exports
 export type RegisterInput = z.infer<typeof registerSchema> & { timezone?: string };
 export type AdminCreateUserInput = z.infer<typeof adminCreateUserSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema> & { timezone?: string };
-export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
\ No newline at end of file
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
\ No newline at end of file
@@ -1,5 +1,53 @@
 import { z } from "zod";
 
+const settingsShape = {
+  startingLives: z
+    .number()
+    .int("Lives must be a whole number")
+    .min(1, "A challenge needs at least 1 life")
+    .max(100, "Lives cannot exceed 100"),
+  missedDayResetsStreak: z.boolean(),
+  completionCriteria: z.enum(["consecutive", "total"]),
+  minHabits: z
+    .number()
+    .int("Minimum habits must be a whole number")
+    .min(1, "Minimum habits must be at least 1")
+    .max(50, "Minimum habits cannot exceed 50"),
+  maxHabits: z
+    .number()
+    .int("Maximum habits must be a whole number")
+    .min(1, "Maximum habits must be at least 1")
+    .max(50, "Maximum habits cannot exceed 50"),
+  cohortOnly: z.boolean(),
+  maxPausedDays: z
+    .number()
+    .int("Paused days must be a whole number")
+    .min(0, "Paused days cannot be negative")
+    .max(90, "Paused days cannot exceed 90"),
+  templateHabits: z
+    .array(
+      z.object({
+        title: z
+          .string()
+          .min(2, "Title must be at least 2 characters")
+          .max(100, "Title must be less than 100 characters"),
+        required: z.boolean().optional().default(true),
+      })
+    )
+    .max(50, "A challenge cannot have more than 50 template habits")
+    .refine(
+      (habits) => new Set(habits.map((h) => h.title.toLowerCase())).size === habits.length,
+      { message: "Template habit titles must be unique" }
+    ),
+};
+
+const minHabitsNotAboveMax = (data: { minHabits?: number; maxHabits?: number | null }) =>
+  data.minHabits === undefined || data.maxHabits == null || data.minHabits <= data.maxHabits;
+
+// Every participant gets all template habits, so they must fit under the cap
+const templateFitsMaxHabits = (data: { maxHabits?: number | null; templateHabits?: unknown[] }) =>
+  data.maxHabits == null || !data.templateHabits || data.templateHabits.length <= data.maxHabits;
+
 export const createChallengeSchema = z.object({
   title: z
     .string()
@@ -14,6 +62,21 @@ export const createChallengeSchema = z.object({
     .int("Duration must be a whole number")
     .min(1, "Duration must be at least 1 day")
     .max(365, "Duration cannot exceed 365 days"),
+  visibility: z.enum(["public", "private"]).optional(), // Defaults: admins public, users private
+  startingLives: settingsShape.startingLives.optional(),
+  missedDayResetsStreak: settingsShape.missedDayResetsStreak.optional(),
+  completionCriteria: settingsShape.completionCriteria.optional(),
+  minHabits: settingsShape.minHabits.optional(),
+  maxHabits: settingsShape.maxHabits.optional(),
+  templateHabits: settingsShape.templateHabits.optional(),
+  cohortOnly: settingsShape.cohortOnly.optional(),
+  maxPausedDays: settingsShape.maxPausedDays.optional(),
+}).strict().refine(minHabitsNotAboveMax, {
+  message: "Minimum habits cannot exceed maximum habits",
+  path: ["maxHabits"],
+}).refine(templateFitsMaxHabits, {
+  message: "Template habits cannot exceed maximum habits",
+  path: ["templateHabits"],
 });
 
 export const updateChallengeSchema = z.object({
@@ -32,11 +95,67 @@ export const updateChallengeSchema = z.object({
     .min(1, "Duration must be at least 1 day")
     .max(365, "Duration cannot exceed 365 days")
     .optional(),
+  startingLives: settingsShape.startingLives.optional(),
+  missedDayResetsStreak: settingsShape.missedDayResetsStreak.optional(),
+  completionCriteria: settingsShape.completionCriteria.optional(),
+  minHabits: settingsShape.minHabits.optional(),
+  maxHabits: settingsShape.maxHabits.nullable().optional(), // null removes the cap
+  templateHabits: settingsShape.templateHabits.optional(),   // replaces the list; existing enrollments keep theirs
+  cohortOnly: settingsShape.cohortOnly.optional(),
+  maxPausedDays: settingsShape.maxPausedDays.optional(),
+}).strict().refine(minHabitsNotAboveMax, {
+  message: "Minimum habits cannot exceed maximum habits",
+  path: ["maxHabits"],
+}).refine(templateFitsMaxHabits, {
+  message: "Template habits cannot exceed maximum habits",
+  path: ["templateHabits"],
 });
 
+export const createInviteSchema = z.object({
+  expiresInDays: z
+    .number()
+    .int("Expiry must be a whole number of days")
+    .min(1, "Expiry must be at least 1 day")
+    .max(365, "Expiry cannot exceed 365 days")
+    .optional(), // Optional: never expires
+  maxUses: z
+    .number()
+    .int("Max uses must be a whole number")
+    .min(1, "Max uses must be at least 1")
+    .max(10000, "Max uses cannot exceed 10000")
+    .optional(), // Optional: unlimited
+});
 
+const cohortShape = {
+  name: z
+    .string()
+    .min(2, "Cohort name must be at least 2 characters")
+    .max(100, "Cohort name must be less than 100 characters"),
+  registrationOpensAt: z.string().datetime(),
+  registrationClosesAt: z.string().datetime(),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+};
 
+export const createCohortSchema = z.object({
+  name: cohortShape.name,
+  registrationOpensAt: cohortShape.registrationOpensAt.optional(),   // Optional: opens now
+  registrationClosesAt: cohortShape.registrationClosesAt.optional(), // Optional: closes at the start
+  startDate: cohortShape.startDate,
+  endDate: cohortShape.endDate.optional(),                           // Optional: open-ended
+});
+
+export const updateCohortSchema = z.object({
+  name: cohortShape.name.optional(),
+  registrationOpensAt: cohortShape.registrationOpensAt.optional(),
+  registrationClosesAt: cohortShape.registrationClosesAt.optional(),
+  startDate: cohortShape.startDate.optional(),
+  endDate: cohortShape.endDate.nullable().optional(), // null makes the cohort open-ended
+});
 
 // Type exports
 export type CreateChallengeInput = z.infer<typeof createChallengeSchema>;
-export type UpdateChallengeInput = z.infer<typeof updateChallengeSchema>;
\ No newline at end of file
+export type UpdateChallengeInput = z.infer<typeof updateChallengeSchema>;
+export type CreateInviteInput = z.infer<typeof createInviteSchema>;
+export type CreateCohortInput = z.infer<typeof createCohortSchema>;
+export type UpdateCohortInput = z.infer<typeof updateCohortSchema>;
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const updateDigestSettingsSchema = z.object({
+  weekly: z.boolean().optional(),
+  weeklyDay: z
+    .number()
+    .int()
+    .min(0, "Weekday must be 0 (Sunday) to 6 (Saturday)")
+    .max(6, "Weekday must be 0 (Sunday) to 6 (Saturday)")
+    .optional(),
+  monthly: z.boolean().optional(),
+});
+
+// Type exports
+export type UpdateDigestSettingsInput = z.infer<typeof updateDigestSettingsSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { logDetailsShape } from "./habitLog.schema";
 
 export const createHabitSchema = z.object({
   title: z
@@ -15,6 +16,15 @@ export const updateHabitSchema = z.object({
     .optional(),
 });
 
+export const logHabitSchema = z.object({
+  date: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), { message: "Invalid date" })
+    .optional(), // Optional: "YYYY-MM-DD", defaults to today
+  ...logDetailsShape,
+});
+
 // Type exports
 export type CreateHabitInput = z.infer<typeof createHabitSchema>;
-export type UpdateHabitInput = z.infer<typeof updateHabitSchema>;
\ No newline at end of file
+export type UpdateHabitInput = z.infer<typeof updateHabitSchema>;
+export type LogHabitInput = z.infer<typeof logHabitSchema>;
\ No newline at end of file
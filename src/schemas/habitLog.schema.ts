@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+// Optional details a user can attach to any log (personal or challenge habit)
+const noteField = z
+  .string()
+  .max(500, "Note must be less than 500 characters");
+
+const ratingField = (label: string) =>
+  z
+    .number()
+    .int(`${label} must be a whole number`)
+    .min(1, `${label} must be between 1 and 5`)
+    .max(5, `${label} must be between 1 and 5`);
+
+const evidenceUrlField = z
+  .string()
+  .url("Invalid evidence URL")
+  .max(2000, "Evidence URL is too long");
+
+export const logDetailsShape = {
+  note: noteField.optional(),
+  mood: ratingField("Mood").optional(),
+  energy: ratingField("Energy").optional(),
+  evidenceUrl: evidenceUrlField.optional(),
+};
+
+// PATCH body — null clears a field
+export const updateHabitLogSchema = z
+  .object({
+    note: noteField.nullable().optional(),
+    mood: ratingField("Mood").nullable().optional(),
+    energy: ratingField("Energy").nullable().optional(),
+    evidenceUrl: evidenceUrlField.nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Provide at least one field to update",
+  });
+
+// Type exports
+export type LogDetailsInput = {
+  note?: string;
+  mood?: number;
+  energy?: number;
+  evidenceUrl?: string;
+};
+export type UpdateHabitLogInput = z.infer<typeof updateHabitLogSchema>;
@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { NOTIFICATION_TYPES } from "../models/Notification";
+
+export const updateNotificationPreferencesSchema = z.object({
+  // true = deliver, false = mute; types left out keep their current setting
+  preferences: z.partialRecord(z.enum(NOTIFICATION_TYPES), z.boolean()),
+});
+
+// Type exports
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { isValidDateStr } from "../utils/habitSchedule";
+
+export const startPauseSchema = z.object({
+  reason: z
+    .string()
+    .max(200, "Reason must be less than 200 characters")
+    .optional(),
+  until: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .refine(isValidDateStr, { message: "Invalid date" })
+    .optional(), // Optional: paused until resumed
+});
+
+// Type exports
+export type StartPauseInput = z.infer<typeof startPauseSchema>;
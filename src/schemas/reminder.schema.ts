@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { isAllowedOutboundUrl } from "../utils/outboundUrl";
+
+const timeOfDayField = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+// Local times of day ("HH:mm", user's timezone) to be reminded at
+export const reminderTimesField = z
+  .array(timeOfDayField)
+  .max(5, "At most 5 reminder times")
+  .refine((times) => new Set(times).size === times.length, { message: "Reminder times must be unique" });
+
+export const updateReminderSettingsSchema = z.object({
+  channels: z
+    .array(z.enum(["in_app", "email", "webhook"]))
+    .max(3)
+    .refine((channels) => new Set(channels).size === channels.length, { message: "Channels must be unique" })
+    .optional(), // Empty turns reminders off
+  quietHours: z
+    .object({ start: timeOfDayField, end: timeOfDayField })
+    .refine((q) => q.start !== q.end, { message: "Quiet hours must not start and end at the same time" })
+    .nullable()
+    .optional(), // null clears them
+  webhookUrl: z
+    .string()
+    .url("Invalid webhook URL")
+    .max(2000, "Webhook URL is too long")
+    .refine(isAllowedOutboundUrl, { message: "Webhook URL must point to a public address" })
+    .nullable()
+    .optional(),
+});
+
+export const setRemindersSchema = z.object({
+  reminderTimes: reminderTimesField,
+});
+
+// Type exports
+export type UpdateReminderSettingsInput = z.infer<typeof updateReminderSettingsSchema>;
+export type SetRemindersInput = z.infer<typeof setRemindersSchema>;
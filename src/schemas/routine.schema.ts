@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { isValidDateStr } from "../utils/habitSchedule";
+
+const localDateField = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine(isValidDateStr, { message: "Invalid date" });
+
+const routineStepSchema = z
+  .object({
+    userHabitId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid habit id")
+      .optional(),
+    title: z
+      .string()
+      .min(1, "Title is required")
+      .max(100, "Title must be less than 100 characters")
+      .optional(),
+    startTime: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Start time must be in HH:mm format"),
+    durationMinutes: z
+      .number()
+      .int("Duration must be a whole number of minutes")
+      .min(1, "Duration must be at least 1 minute")
+      .max(720, "Duration cannot exceed 12 hours"),
+  })
+  .refine((step) => !!step.userHabitId !== !!step.title, {
+    message: "Each step needs either a habit or a title",
+  });
+
+const weekdaysField = z
+  .array(z.number().int().min(0).max(6))
+  .min(1, "Pick at least one weekday")
+  .max(7)
+  .refine((days) => new Set(days).size === days.length, { message: "Weekdays must be unique" });
+
+const stepsField = z
+  .array(routineStepSchema)
+  .min(1, "A routine needs at least one step")
+  .max(30, "A routine can have at most 30 steps");
+
+export const createRoutineSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+  description: z
+    .string()
+    .max(300, "Description must be less than 300 characters")
+    .optional(),
+  weekdays: weekdaysField.optional(), // Optional: defaults to every day
+  steps: stepsField,
+});
+
+export const updateRoutineSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters")
+    .optional(),
+  description: z
+    .string()
+    .max(300, "Description must be less than 300 characters")
+    .optional(),
+  weekdays: weekdaysField.optional(),
+  steps: stepsField.optional(), // Replaces the whole list
+});
+
+export const checkRoutineSchema = z.object({
+  date: localDateField.optional(), // Optional: defaults to today
+});
+
+// Type exports
+export type RoutineStepInput = z.infer<typeof routineStepSchema>;
+export type CreateRoutineInput = z.infer<typeof createRoutineSchema>;
+export type UpdateRoutineInput = z.infer<typeof updateRoutineSchema>;
+export type CheckRoutineInput = z.infer<typeof checkRoutineSchema>;
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+export const createTeamSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Team name must be at least 2 characters")
+    .max(50, "Team name must be less than 50 characters"),
+  startDate: z
+    .string()
+    .datetime()
+    .optional(), // Optional: defaults to now
+});
+
+export const joinTeamSchema = z.object({
+  code: z
+    .string()
+    .min(4, "Team code is required")
+    .max(20, "Invalid team code"),
+});
+
+// Type exports
+export type CreateTeamInput = z.infer<typeof createTeamSchema>;
+export type JoinTeamInput = z.infer<typeof joinTeamSchema>;
@@ -1,6 +1,30 @@
 import { z } from "zod";
 
+const cohortIdField = z
+  .string()
+  .regex(/^[0-9a-fA-F]{24}$/, "Invalid cohort id");
+
 export const joinChallengeSchema = z.object({
+  startDate: z
+    .string()
+    .datetime()
+    .optional(), // Optional: defaults to now (not allowed with a cohort)
+  cohortId: cohortIdField.optional(), // Required for cohort-only challenges
+});
+
+export const joinByCodeSchema = z.object({
+  code: z
+    .string()
+    .min(4, "Invite code is required")
+    .max(20, "Invalid invite code"),
+  startDate: z
+    .string()
+    .datetime()
+    .optional(), // Optional: defaults to now (not allowed with a cohort)
+  cohortId: cohortIdField.optional(), // Required for cohort-only challenges
+});
+
+export const restartChallengeSchema = z.object({
   startDate: z
     .string()
     .datetime()
@@ -8,4 +32,6 @@ export const joinChallengeSchema = z.object({
 });
 
 // Type exports
-export type JoinChallengeInput = z.infer<typeof joinChallengeSchema>;
\ No newline at end of file
+export type JoinChallengeInput = z.infer<typeof joinChallengeSchema>;
+export type JoinByCodeInput = z.infer<typeof joinByCodeSchema>;
+export type RestartChallengeInput = z.infer<typeof restartChallengeSchema>;
\ No newline at end of file
@@ -1,4 +1,51 @@
 import { z } from "zod";
+import { isValidDateStr } from "../utils/habitSchedule";
+import { logDetailsShape } from "./habitLog.schema";
+import { reminderTimesField } from "./reminder.schema";
+
+const localDateField = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine(isValidDateStr, { message: "Invalid date" });
+
+export const habitScheduleSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("daily") }),
+  z.object({
+    type: z.literal("weekdays"),
+    weekdays: z
+      .array(z.number().int().min(0).max(6))
+      .min(1, "Pick at least one weekday")
+      .max(7)
+      .refine((days) => new Set(days).size === days.length, { message: "Weekdays must be unique" }),
+  }),
+  z.object({
+    type: z.literal("weekly"),
+    timesPerWeek: z
+      .number()
+      .int("Times per week must be a whole number")
+      .min(1, "Times per week must be at least 1")
+      .max(7, "Times per week cannot exceed 7"),
+  }),
+  z.object({
+    type: z.literal("interval"),
+    everyNDays: z
+      .number()
+      .int("Interval must be a whole number")
+      .min(2, "Interval must be at least 2 days (use daily otherwise)")
+      .max(365, "Interval cannot exceed 365 days"),
+    anchorDate: localDateField.optional(), // Optional: defaults to today
+  }),
+]);
+
+const targetField = z
+  .number()
+  .positive("Target must be greater than 0")
+  .max(1_000_000, "Target is too large");
+
+const unitField = z
+  .string()
+  .min(1, "Unit is required")
+  .max(20, "Unit must be less than 20 characters");
 
 export const createUserHabitSchema = z.object({
   title: z
@@ -13,6 +60,10 @@ export const createUserHabitSchema = z.object({
     .string()
     .max(20, "Color must be less than 20 characters")
     .optional(),
+  schedule: habitScheduleSchema.optional(),
+  target: targetField.optional(),
+  unit: unitField.optional(),
+  reminderTimes: reminderTimesField.optional(),
 });
 
 export const updateUserHabitSchema = z.object({
@@ -29,15 +80,23 @@ export const updateUserHabitSchema = z.object({
     .string()
     .max(20, "Color must be less than 20 characters")
     .optional(),
+  schedule: habitScheduleSchema.optional(),
+  target: targetField.optional(),
+  unit: unitField.optional(),
+  reminderTimes: reminderTimesField.optional(),
 });
 
 export const logUserHabitSchema = z.object({
-  date: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
-    .optional(),
+  date: localDateField.optional(),
+  value: z
+    .number()
+    .positive("Value must be greater than 0")
+    .max(1_000_000, "Value is too large")
+    .optional(), // Required for habits with a target; added to the day's total
+  ...logDetailsShape,
 });
 
 export type CreateUserHabitInput = z.infer<typeof createUserHabitSchema>;
 export type UpdateUserHabitInput = z.infer<typeof updateUserHabitSchema>;
+export type HabitScheduleInput = z.infer<typeof habitScheduleSchema>;
 export type LogUserHabitInput = z.infer<typeof logUserHabitSchema>;
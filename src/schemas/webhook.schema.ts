@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { WEBHOOK_EVENTS } from "../models/WebhookEndpoint";
+import { isAllowedOutboundUrl } from "../utils/outboundUrl";
+
+const urlField = z
+  .string()
+  .url("Invalid webhook URL")
+  .max(2000, "Webhook URL is too long")
+  .refine((url) => /^https?:\/\//.test(url), { message: "Webhook URL must use http or https" })
+  .refine(isAllowedOutboundUrl, { message: "Webhook URL must point to a public address" });
+
+const eventsField = z
+  .array(z.enum(WEBHOOK_EVENTS))
+  .min(1, "Subscribe to at least one event")
+  .refine((events) => new Set(events).size === events.length, { message: "Events must be unique" });
+
+export const createWebhookSchema = z.object({
+  url: urlField,
+  description: z
+    .string()
+    .max(200, "Description must be less than 200 characters")
+    .optional(),
+  events: eventsField,
+});
+
+export const updateWebhookSchema = z.object({
+  url: urlField.optional(),
+  description: z
+    .string()
+    .max(200, "Description must be less than 200 characters")
+    .optional(),
+  events: eventsField.optional(),
+  active: z.boolean().optional(),
+});
+
+// Type exports
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
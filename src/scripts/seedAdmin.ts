@@ -37,6 +37,8 @@ async function seedAdmin() {
       email: ADMIN_EMAIL,
       password: hashedPassword,
       role: "admin",
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
     });
 
     console.log("Admin created successfully");
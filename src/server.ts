@@ -2,6 +2,7 @@ import dotenv from "dotenv";
 dotenv.config(); // Load .env FIRST before any other imports
 import mongoose from "mongoose";
 import app from "./app";
+import { startScheduler } from "./jobs";
 const PORT = process.env.PORT || 5000;
 const MONGO_URI = process.env.MONGO_URI as string;
 
@@ -9,5 +10,6 @@ mongoose.connect(MONGO_URI)
   .then(() => {
     console.log("MongoDB connected");
     app.listen(PORT, () => console.log(`Server running on port ${PORT}`));
+    if (process.env.SCHEDULER_ENABLED !== "false") startScheduler();
   })
   .catch(err => console.error(err));
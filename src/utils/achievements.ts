@@ -0,0 +1,209 @@
+import { Types } from "mongoose";
+import UserAchievement, { IUserAchievement } from "../models/UserAchievement";
+import UserChallenge from "../models/UserChallenge";
+import Habit from "../models/Habit";
+import HabitLog from "../models/HabitLog";
+import UserHabit from "../models/UserHabit";
+import UserHabitLog from "../models/UserHabitLog";
+import { todayInTZ } from "./timezone";
+import { getHabitSchedule, localDayNumber, summarizeRange } from "./habitSchedule";
+import { isLogComplete } from "./habitLog";
+import { pausedDaySet } from "./pause";
+import { notify } from "./notifications";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/** What just happened: a habit (challenge or personal) was logged, or an enrollment completed. */
+export type AchievementTrigger = "log" | "challenge_completed";
+
+export interface AchievementEvent {
+  trigger: AchievementTrigger;
+  streak?: number;                    // "log": the logged habit's / enrollment's current streak in days
+  userChallengeId?: Types.ObjectId;
+  userHabitId?: Types.ObjectId;
+}
+
+/** Lazily loaded (and cached) facts about the user, shared by all rules in one evaluation. */
+interface AchievementFacts {
+  completedChallenges(): Promise<number>;
+  totalLogs(): Promise<number>;
+  perfectWeek(): Promise<boolean>;
+}
+
+interface AchievementRule {
+  key: string;
+  title: string;
+  description: string;
+  triggers: AchievementTrigger[];
+  isMet(event: AchievementEvent, facts: AchievementFacts): boolean | Promise<boolean>;
+}
+
+const streakRule = (days: number, title: string): AchievementRule => ({
+  key: `streak_${days}`,
+  title,
+  description: `Reached a ${days}-day streak`,
+  triggers: ["log"],
+  isMet: (event) => (event.streak ?? 0) >= days,
+});
+
+const logCountRule = (count: number, title: string): AchievementRule => ({
+  key: count === 1 ? "first_log" : `logs_${count}`,
+  title,
+  description: count === 1 ? "Logged a habit for the first time" : `Logged ${count} habit completions`,
+  triggers: ["log"],
+  isMet: async (_event, facts) => (await facts.totalLogs()) >= count,
+});
+
+const completedChallengesRule = (count: number, title: string): AchievementRule => ({
+  key: count === 1 ? "first_challenge_completed" : `challenges_completed_${count}`,
+  title,
+  description: count === 1 ? "Completed a challenge for the first time" : `Completed ${count} challenges`,
+  triggers: ["challenge_completed"],
+  isMet: async (_event, facts) => (await facts.completedChallenges()) >= count,
+});
+
+/**
+ * Every achievement, in display order. Rules are only checked for the triggers
+ * they list, and an achievement is never re-evaluated once earned — so adding a
+ * rule here is all it takes to introduce a new one.
+ */
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  logCountRule(1, "First step"),
+  logCountRule(100, "Centurion"),
+  logCountRule(500, "Creature of habit"),
+  streakRule(7, "On a roll"),
+  streakRule(30, "Unstoppable"),
+  streakRule(100, "Iron will"),
+  {
+    key: "perfect_week",
+    title: "Perfect week",
+    description: "Completed every scheduled personal habit for 7 days straight",
+    triggers: ["log"],
+    isMet: (_event, facts) => facts.perfectWeek(),
+  },
+  completedChallengesRule(1, "Challenge accepted"),
+  completedChallengesRule(5, "Serial finisher"),
+];
+
+/**
+ * Checks the rules for `event` that the user hasn't earned yet, persists the
+ * ones now met and returns them (formatted). Safe to call concurrently — the
+ * unique index makes each achievement stick once.
+ */
+export async function evaluateAchievements(
+  userId: Types.ObjectId,
+  tz: string,
+  event: AchievementEvent
+): Promise<ReturnType<typeof formatAchievement>[]> {
+  const earnedKeys = new Set<string>(await UserAchievement.find({ userId }).distinct("key"));
+  const facts = createFacts(userId, tz);
+
+  const earned: IUserAchievement[] = [];
+  for (const rule of ACHIEVEMENT_RULES) {
+    if (earnedKeys.has(rule.key) || !rule.triggers.includes(event.trigger)) continue;
+    if (!(await rule.isMet(event, facts))) continue;
+
+    try {
+      earned.push(await UserAchievement.create({
+        userId,
+        key: rule.key,
+        userChallengeId: event.userChallengeId,
+        userHabitId: event.userHabitId,
+      }));
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  const formatted = earned.map(formatAchievement).filter((a) => a !== null);
+  for (const achievement of formatted) {
+    await notify(userId, {
+      type: "achievement_earned",
+      title: `Achievement unlocked: ${achievement.title}`,
+      body: achievement.description,
+      data: { key: achievement.key },
+      dedupeKey: `achievement:${achievement.key}`,
+    });
+  }
+  return formatted;
+}
+
+/** A user's earned achievements, most recent first (for the public profile). */
+export async function getUserAchievements(userId: Types.ObjectId) {
+  const achievements = await UserAchievement.find({ userId }).sort({ earnedAt: -1 });
+  // Achievements whose rule was retired simply drop out
+  return achievements.map(formatAchievement).filter((a) => a !== null);
+}
+
+export function formatAchievement(achievement: IUserAchievement) {
+  const rule = ACHIEVEMENT_RULES.find((r) => r.key === achievement.key);
+  if (!rule) return null;
+  return {
+    key: rule.key,
+    title: rule.title,
+    description: rule.description,
+    earnedAt: achievement.earnedAt,
+  };
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function createFacts(userId: Types.ObjectId, tz: string): AchievementFacts {
+  const memo = <T>(load: () => Promise<T>) => {
+    let cached: Promise<T> | undefined;
+    return () => (cached ??= load());
+  };
+
+  return {
+    completedChallenges: memo(() => UserChallenge.countDocuments({ userId, status: "completed" })),
+    totalLogs: memo(() => countAllLogs(userId)),
+    perfectWeek: memo(() => hadPerfectWeek(userId, tz)),
+  };
+}
+
+/** Challenge habit logs plus personal habit logs. */
+async function countAllLogs(userId: Types.ObjectId): Promise<number> {
+  const [habitIds, userHabitIds] = await Promise.all([
+    Habit.find({ user_id: userId }).distinct("_id"),
+    UserHabit.find({ user_id: userId }).distinct("_id"),
+  ]);
+  const [challengeLogs, personalLogs] = await Promise.all([
+    HabitLog.countDocuments({ habit_id: { $in: habitIds } }),
+    UserHabitLog.countDocuments({ userHabit_id: { $in: userHabitIds } }),
+  ]);
+  return challengeLogs + personalLogs;
+}
+
+/**
+ * Whether every active personal habit that existed for the whole of the last 7
+ * local days (today included) met its schedule on them. Paused days are left
+ * out; at least one habit must have been expected at all.
+ */
+async function hadPerfectWeek(userId: Types.ObjectId, tz: string): Promise<boolean> {
+  const today = localDayNumber(new Date(), tz);
+  const from = today - 6;
+
+  const habits = (await UserHabit.find({ user_id: userId, isArchived: false }))
+    .filter((habit) => localDayNumber(habit.createdAt, tz) <= from);
+  if (habits.length === 0) return false;
+
+  // Loose lower bound; logs are bucketed into local days below
+  const logs = await UserHabitLog.find({
+    userHabit_id: { $in: habits.map((h) => h._id) },
+    dateCompleted: { $gte: new Date(todayInTZ(tz).getTime() - 7 * DAY_MS) },
+  });
+
+  let anyExpected = false;
+  for (const habit of habits) {
+    const completedDays = new Set(
+      logs
+        .filter((log) => log.userHabit_id.toString() === habit._id.toString() && isLogComplete(habit, log))
+        .map((log) => localDayNumber(log.dateCompleted, tz))
+    );
+    const paused = pausedDaySet(habit.pauses, today);
+    const { expected, completed } = summarizeRange(getHabitSchedule(habit), completedDays, from, today, paused);
+    if (completed < expected) return false;
+    if (expected > 0) anyExpected = true;
+  }
+  return anyExpected;
+}
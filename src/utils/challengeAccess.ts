@@ -0,0 +1,25 @@
+import { IUser } from "../models/User";
+import { IChallenge } from "../models/Challenge";
+import UserChallenge from "../models/UserChallenge";
+
+/** Admins manage every challenge; users manage the private challenges they own. */
+export function canManageChallenge(user: IUser | undefined, challenge: IChallenge): boolean {
+  if (!user) return false;
+  if (user.role === "admin") return true;
+  return !!challenge.ownerId && challenge.ownerId.toString() === user._id.toString();
+}
+
+/**
+ * Public challenges are visible to anyone; private ones to managers and
+ * participants, past attempts included. A member a manager removed loses access
+ * until they join again (their latest enrollment is the removed one until then).
+ */
+export async function canViewChallenge(user: IUser | undefined, challenge: IChallenge): Promise<boolean> {
+  if (challenge.visibility !== "private") return true;
+  if (canManageChallenge(user, challenge)) return true;
+  if (!user) return false;
+  const latest = await UserChallenge.findOne({ userId: user._id, challengeId: challenge._id })
+    .sort({ createdAt: -1 })
+    .select("removedAt");
+  return !!latest && !latest.removedAt;
+}
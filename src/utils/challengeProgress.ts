@@ -0,0 +1,217 @@
+import { ChallengeStatus } from "../models/UserChallenge";
+import { IChallenge, CompletionCriteria } from "../models/Challenge";
+import { IPausePeriod } from "../models/PausePeriod";
+import { startOfDayInTZ } from "./timezone";
+import { localDayNumber, dateStrToDayNumber } from "./habitSchedule";
+import { pausedDaySet, countPausedDays, hasUnpausedDay } from "./pause";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/** Progress fields shared by individual enrollments (UserChallenge) and teams (Team). */
+export interface TrackedProgress {
+  status: ChallengeStatus;
+  startDate: Date;
+  endDate?: Date;
+  progress: {
+    completedDays: number;
+    currentStreak: number;
+    lastCompletedDate?: Date;
+  };
+  livesRemaining: number;
+  missedDays: number;
+  pauses?: IPausePeriod[];
+  frozenDates?: string[];
+}
+
+export interface ChallengeRules {
+  startingLives: number;
+  missedDayResetsStreak: boolean;
+  completionCriteria: CompletionCriteria;
+  minHabits: number;
+  maxHabits: number | null;
+  maxPausedDays: number;
+}
+
+/**
+ * Resolves a challenge's rules, filling in the defaults for challenges created
+ * before the rules existed (or read through aggregate, where schema defaults
+ * don't apply).
+ */
+export function getChallengeRules(challenge: Partial<IChallenge>): ChallengeRules {
+  return {
+    startingLives: challenge.startingLives ?? 5,
+    missedDayResetsStreak: challenge.missedDayResetsStreak ?? false,
+    completionCriteria: challenge.completionCriteria ?? "consecutive",
+    minHabits: challenge.minHabits ?? 1,
+    maxHabits: challenge.maxHabits ?? null,
+    maxPausedDays: challenge.maxPausedDays ?? 7,
+  };
+}
+
+/** Whether an enrollment's progress meets the challenge's completion criteria. */
+export function meetsCompletionCriteria(
+  challenge: Partial<IChallenge> & { durationDays: number },
+  progress: { completedDays: number; currentStreak: number }
+): boolean {
+  const { completionCriteria } = getChallengeRules(challenge);
+  const achieved = completionCriteria === "total" ? progress.completedDays : progress.currentStreak;
+  return achieved >= challenge.durationDays;
+}
+
+/**
+ * Days that don't count as missed: paused days plus missed days covered by a
+ * streak freeze (see utils/streakFreeze.ts). Neither kind has completions.
+ */
+function excusedDaySet(userChallenge: TrackedProgress, today: number, maxPausedDays: number): Set<number> {
+  const excused = pausedDaySet(userChallenge.pauses, today, maxPausedDays);
+  for (const date of userChallenge.frozenDates ?? []) excused.add(dateStrToDayNumber(date));
+  return excused;
+}
+
+/**
+ * Recomputes missed days / lives for an active enrollment as of `now` in the
+ * user's timezone and returns the fields to persist, or null when nothing changed.
+ * Paused and frozen days are neither missed nor break a streak. Enrollments with an end
+ * date fail once it has passed.
+ *
+ * The computation is absolute (elapsed past days minus completed past days), so
+ * calling it any number of times for the same local day is idempotent — both the
+ * lazy check in getMyChallengeProgress and the background sweep rely on this.
+ */
+export function getMissedDayUpdate(
+  userChallenge: TrackedProgress,
+  challenge: Partial<IChallenge>,
+  tz: string,
+  now: Date = new Date()
+): Record<string, unknown> | null {
+  if (userChallenge.status !== "active") return null;
+
+  const rules = getChallengeRules(challenge);
+  const today = startOfDayInTZ(tz, now);
+  const startDay = startOfDayInTZ(tz, userChallenge.startDate);
+
+  // Total full days elapsed since start (today excluded — not yet over)
+  const daysElapsed = Math.floor((today.getTime() - startDay.getTime()) / DAY_MS);
+
+  // missedDays = elapsed past days - completions that happened on past days
+  // If today was already completed, exclude it from completedDays since today hasn't elapsed yet
+  const lastCompleted = userChallenge.progress.lastCompletedDate;
+  let completedDaysForPast = userChallenge.progress.completedDays;
+  let lastDay: Date | null = null;
+  if (lastCompleted) {
+    lastDay = startOfDayInTZ(tz, new Date(lastCompleted));
+    if (lastDay.getTime() === today.getTime()) {
+      completedDaysForPast -= 1;
+    }
+  }
+
+  // Paused and frozen days never have completions (logging is blocked while paused), so they simply drop out
+  const todayNum = localDayNumber(now, tz);
+  const startNum = localDayNumber(userChallenge.startDate, tz);
+  const paused = excusedDaySet(userChallenge, todayNum, rules.maxPausedDays);
+  const pausedPastDays = countPausedDays(paused, startNum, todayNum - 1);
+
+  const totalMissedDays = Math.max(0, daysElapsed - completedDaysForPast - pausedPastDays);
+  const totalLivesRemaining = Math.max(0, rules.startingLives - totalMissedDays);
+
+  // Scheduled (cohort) enrollments that are still active once their end date has passed fail too
+  const pastEndDate = !!userChallenge.endDate && today > startOfDayInTZ(tz, userChallenge.endDate);
+  const failed = totalLivesRemaining <= 0 || pastEndDate;
+
+  // A fully elapsed, unexcused day without a completion since the last one breaks the streak
+  const streakBroken =
+    rules.missedDayResetsStreak &&
+    userChallenge.progress.currentStreak > 0 &&
+    hasUnpausedDay(paused, lastDay ? localDayNumber(lastDay, tz) + 1 : startNum, todayNum - 1);
+
+  // Only write if something actually changed
+  if (
+    totalMissedDays === userChallenge.missedDays &&
+    totalLivesRemaining === userChallenge.livesRemaining &&
+    !failed &&
+    !streakBroken
+  ) {
+    return null;
+  }
+
+  const updateData: Record<string, unknown> = {
+    missedDays: totalMissedDays,
+    livesRemaining: totalLivesRemaining,
+  };
+  if (streakBroken) {
+    updateData["progress.currentStreak"] = 0;
+  }
+  if (failed) {
+    updateData.status = "failed";
+    updateData.completedOn = now;
+  }
+  return updateData;
+}
+
+/** Just the "progress.*" fields of an update — for team members, whose lives and status are shared. */
+export function pickProgressFields(updateData: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(updateData).filter(([key]) => key.startsWith("progress.")));
+}
+
+export interface DayCompletedResult {
+  updateData: Record<string, unknown>;
+  livesRemaining: number;
+  challengeCompleted: boolean;
+  challengeFailed: boolean;
+}
+
+/**
+ * Progress update for an enrollment whose habits were all completed on `day`
+ * (start of that day in `tz`). Uses the same absolute missed-day computation as
+ * getMissedDayUpdate to avoid double-counting.
+ */
+export function getDayCompletedUpdate(
+  userChallenge: TrackedProgress,
+  challenge: Partial<IChallenge> & { durationDays: number },
+  day: Date,
+  tz: string
+): DayCompletedResult {
+  const rules = getChallengeRules(challenge);
+  const startDay = startOfDayInTZ(tz, userChallenge.startDate);
+  const daysElapsed = Math.floor((day.getTime() - startDay.getTime()) / DAY_MS);
+
+  const dayNum = localDayNumber(day, tz);
+  const startNum = localDayNumber(userChallenge.startDate, tz);
+  const paused = excusedDaySet(userChallenge, dayNum, rules.maxPausedDays);
+
+  const newCompletedDays = userChallenge.progress.completedDays + 1;
+  const pausedDaysBefore = countPausedDays(paused, startNum, dayNum - 1);
+  const totalMissedDays = Math.max(0, daysElapsed - newCompletedDays + 1 - pausedDaysBefore);
+  const totalLivesRemaining = Math.max(0, rules.startingLives - totalMissedDays);
+
+  // By default the streak always increments — missed days cost lives, not streak.
+  // Challenges with missedDayResetsStreak restart it after any (unpaused, unfrozen) gap.
+  const lastCompleted = userChallenge.progress.lastCompletedDate;
+  const gap = lastCompleted
+    ? hasUnpausedDay(paused, localDayNumber(new Date(lastCompleted), tz) + 1, dayNum - 1)
+    : false;
+  const newStreak = rules.missedDayResetsStreak && gap ? 1 : userChallenge.progress.currentStreak + 1;
+
+  const challengeFailed = totalLivesRemaining <= 0;
+  const challengeCompleted =
+    !challengeFailed &&
+    meetsCompletionCriteria(challenge, { completedDays: newCompletedDays, currentStreak: newStreak });
+
+  const updateData: Record<string, unknown> = {
+    "progress.completedDays": newCompletedDays,
+    "progress.currentStreak": newStreak,
+    "progress.lastCompletedDate": day,
+    livesRemaining: totalLivesRemaining,
+    missedDays: totalMissedDays,
+  };
+
+  if (challengeCompleted) {
+    updateData.status = "completed";
+    updateData.completedOn = new Date();
+  } else if (challengeFailed) {
+    updateData.status = "failed";
+    updateData.completedOn = new Date();
+  }
+
+  return { updateData, livesRemaining: totalLivesRemaining, challengeCompleted, challengeFailed };
+}
@@ -0,0 +1,38 @@
+import { ICohort } from "../models/Cohort";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type CohortPhase = "upcoming" | "registration_open" | "registration_closed" | "running" | "ended";
+
+/** Where a cohort is in its lifecycle at `now`. */
+export function getCohortPhase(cohort: ICohort, now: Date = new Date()): CohortPhase {
+  if (cohort.endDate && now >= cohort.endDate) return "ended";
+  if (now >= cohort.startDate) return "running";
+  if (now >= cohort.registrationClosesAt) return "registration_closed";
+  if (now >= cohort.registrationOpensAt) return "registration_open";
+  return "upcoming";
+}
+
+export function isRegistrationOpen(cohort: ICohort, now: Date = new Date()): boolean {
+  return now >= cohort.registrationOpensAt && now < cohort.registrationClosesAt;
+}
+
+/** Earliest end date that still leaves room to finish a challenge of `durationDays`. */
+export function minimumEndDate(startDate: Date, durationDays: number): Date {
+  return new Date(startDate.getTime() + durationDays * DAY_MS);
+}
+
+export function formatCohort(cohort: ICohort, participantCount?: number) {
+  return {
+    id: cohort._id,
+    challengeId: cohort.challengeId,
+    name: cohort.name,
+    registrationOpensAt: cohort.registrationOpensAt,
+    registrationClosesAt: cohort.registrationClosesAt,
+    startDate: cohort.startDate,
+    endDate: cohort.endDate ?? null,
+    phase: getCohortPhase(cohort),
+    ...(participantCount !== undefined && { participantCount }),
+    createdAt: cohort.createdAt,
+  };
+}
@@ -0,0 +1,344 @@
+import { once } from "events";
+import { Writable } from "stream";
+import { IUser } from "../models/User";
+import UserHabit from "../models/UserHabit";
+import UserHabitLog from "../models/UserHabitLog";
+import UserChallenge from "../models/UserChallenge";
+import Habit from "../models/Habit";
+import HabitLog from "../models/HabitLog";
+import { toLocalDateStr, DEFAULT_TIMEZONE } from "./timezone";
+import { getHabitSchedule, dateStrToDayNumber, dayNumberToDateStr } from "./habitSchedule";
+import { isLogComplete } from "./habitLog";
+
+/**
+ * "Download my data". Records are read through cursors and written to the
+ * response as they come, so an export of years of logs never sits in memory.
+ * Dates of days (logs, start dates) are local "YYYY-MM-DD" strings in the
+ * user's timezone; instants are ISO timestamps.
+ *
+ * JSON groups records by section; CSV puts every section in one table with a
+ * leading `type` column (type-specific extras go into the JSON `details`
+ * column); iCalendar has one all-day event per completion.
+ */
+
+export type ExportSection =
+  | "profile"
+  | "habits"
+  | "habitLogs"
+  | "enrollments"
+  | "challengeHabits"
+  | "challengeHabitLogs";
+
+type ExportRecord = Record<string, unknown>;
+
+// CSV row type per section
+const CSV_TYPES: Record<ExportSection, string> = {
+  profile: "profile",
+  habits: "habit",
+  habitLogs: "habit_log",
+  enrollments: "enrollment",
+  challengeHabits: "challenge_habit",
+  challengeHabitLogs: "challenge_habit_log",
+};
+
+const CSV_COLUMNS = [
+  "type", "id", "parent_id", "date", "title", "status", "value",
+  "note", "mood", "energy", "evidence_url", "details",
+] as const;
+
+export async function streamJsonExport(user: IUser, out: Writable): Promise<void> {
+  await write(out, `{"exportedAt":${JSON.stringify(new Date().toISOString())}`);
+
+  let section: ExportSection | null = null;
+  let first = true;
+  const written = new Set<ExportSection>();
+  for await (const [recordSection, record] of exportRecords(user)) {
+    if (recordSection === "profile") {
+      await write(out, `,"profile":${JSON.stringify(record)}`);
+      continue;
+    }
+    if (recordSection !== section) {
+      await write(out, `${section ? "]" : ""},${JSON.stringify(recordSection)}:[`);
+      section = recordSection;
+      written.add(section);
+      first = true;
+    }
+    await write(out, (first ? "" : ",") + JSON.stringify(record));
+    first = false;
+  }
+  if (section) await write(out, "]");
+
+  // Sections without records are still present, as empty lists
+  for (const empty of (Object.keys(CSV_TYPES) as ExportSection[]).filter((s) => s !== "profile" && !written.has(s))) {
+    await write(out, `,${JSON.stringify(empty)}:[]`);
+  }
+  await write(out, "}\n");
+}
+
+export async function streamCsvExport(user: IUser, out: Writable): Promise<void> {
+  await write(out, CSV_COLUMNS.join(",") + "\r\n");
+  for await (const [section, record] of exportRecords(user)) {
+    const row = toCsvRow(section, record);
+    await write(out, CSV_COLUMNS.map((column) => csvCell(row[column])).join(",") + "\r\n");
+  }
+}
+
+/** Completions of personal and challenge habits as all-day events. */
+export async function streamIcsExport(user: IUser, out: Writable, host: string): Promise<void> {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  await write(out, [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Habits//Data Export//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsText(`${user.name}'s habits`)}`,
+    "",
+  ].join("\r\n"));
+
+  for await (const [section, record] of exportRecords(user)) {
+    if (section !== "habitLogs" && section !== "challengeHabitLogs") continue;
+    if (record.completed === false) continue; // partial progress on a quantitative habit
+
+    const date = record.date as string;
+    const next = dayNumberToDateStr(dateStrToDayNumber(date) + 1);
+    const summary = section === "habitLogs"
+      ? `✓ ${record.habitTitle}`
+      : `✓ ${record.habitTitle} (${record.challengeTitle})`;
+
+    await write(out, [
+      "BEGIN:VEVENT",
+      `UID:${record.id}@${host}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${date.replace(/-/g, "")}`,
+      `DTEND;VALUE=DATE:${next.replace(/-/g, "")}`,
+      `SUMMARY:${icsText(summary)}`,
+      ...(record.note ? [`DESCRIPTION:${icsText(record.note as string)}`] : []),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+      "",
+    ].map(foldIcsLine).join("\r\n"));
+  }
+
+  await write(out, "END:VCALENDAR\r\n");
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Writes a chunk, waiting for the stream to drain when its buffer is full.
+ * Throws once the client has gone away, which ends the export early.
+ */
+async function write(out: Writable, chunk: string): Promise<void> {
+  if (out.destroyed) throw new Error("Export stream closed");
+  if (!out.write(chunk)) {
+    await Promise.race([once(out, "drain"), once(out, "close")]);
+    if (out.destroyed) throw new Error("Export stream closed");
+  }
+}
+
+/** Every exported record, section by section in a fixed order. */
+async function* exportRecords(user: IUser): AsyncGenerator<[ExportSection, ExportRecord]> {
+  const tz = user.timezone || DEFAULT_TIMEZONE;
+  const localDate = (date?: Date | null) => (date ? toLocalDateStr(date, tz) : null);
+
+  yield ["profile", {
+    id: user._id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    avatar: user.avatar ?? null,
+    timezone: tz,
+    emailVerified: user.emailVerified,
+    hideFromLeaderboards: user.hideFromLeaderboards,
+    xp: user.xp ?? 0,
+    streakFreezes: user.streakFreezes ?? 0,
+    createdAt: user.createdAt,
+  }];
+
+  // Habits are few; they are kept to label their logs
+  const habits = await UserHabit.find({ user_id: user._id }).sort({ createdAt: 1 });
+  const habitsById = new Map(habits.map((h) => [h._id.toString(), h]));
+  for (const habit of habits) {
+    yield ["habits", {
+      id: habit._id,
+      title: habit.title,
+      description: habit.description ?? null,
+      color: habit.color ?? null,
+      schedule: getHabitSchedule(habit),
+      target: habit.target ?? null,
+      unit: habit.unit ?? null,
+      isArchived: habit.isArchived,
+      createdDate: localDate(habit.createdAt),
+    }];
+  }
+
+  const habitLogs = UserHabitLog.find({ userHabit_id: { $in: habits.map((h) => h._id) } })
+    .sort({ dateCompleted: 1 })
+    .lean()
+    .cursor();
+  for await (const log of habitLogs) {
+    const habit = habitsById.get(log.userHabit_id.toString());
+    yield ["habitLogs", {
+      id: log._id,
+      habitId: log.userHabit_id,
+      habitTitle: habit?.title ?? null,
+      date: localDate(log.dateCompleted),
+      value: log.value ?? 1,
+      completed: habit ? isLogComplete(habit, log) : true,
+      note: log.note ?? null,
+      mood: log.mood ?? null,
+      energy: log.energy ?? null,
+      evidenceUrl: log.evidenceUrl ?? null,
+    }];
+  }
+
+  const enrollments = await UserChallenge.find({ userId: user._id })
+    .populate("challengeId", "title durationDays")
+    .sort({ startDate: 1 });
+  const challengeTitles = new Map<string, string | null>();
+  for (const enrollment of enrollments) {
+    const challenge = enrollment.challengeId as any;
+    challengeTitles.set(enrollment._id.toString(), challenge?.title ?? null);
+    yield ["enrollments", {
+      id: enrollment._id,
+      challengeId: challenge?._id ?? null,
+      challengeTitle: challenge?.title ?? null,
+      status: enrollment.status,
+      attempt: enrollment.attempt ?? 1,
+      teamId: enrollment.teamId ?? null,
+      startDate: localDate(enrollment.startDate),
+      endDate: localDate(enrollment.endDate),
+      completedOn: localDate(enrollment.completedOn),
+      completedDays: enrollment.progress.completedDays,
+      currentStreak: enrollment.progress.currentStreak,
+      livesRemaining: enrollment.livesRemaining,
+      missedDays: enrollment.missedDays,
+    }];
+  }
+
+  const challengeHabits = await Habit.find({ user_id: user._id }).sort({ createdAt: 1 });
+  const challengeHabitsById = new Map(challengeHabits.map((h) => [h._id.toString(), h]));
+  for (const habit of challengeHabits) {
+    yield ["challengeHabits", {
+      id: habit._id,
+      userChallengeId: habit.userChallenge_id,
+      challengeTitle: challengeTitles.get(habit.userChallenge_id.toString()) ?? null,
+      title: habit.title,
+      isRequired: habit.isRequired,
+      createdDate: localDate(habit.createdAt),
+    }];
+  }
+
+  const challengeLogs = HabitLog.find({ habit_id: { $in: challengeHabits.map((h) => h._id) } })
+    .sort({ dateCompleted: 1 })
+    .lean()
+    .cursor();
+  for await (const log of challengeLogs) {
+    const habit = challengeHabitsById.get(log.habit_id.toString());
+    yield ["challengeHabitLogs", {
+      id: log._id,
+      habitId: log.habit_id,
+      habitTitle: habit?.title ?? null,
+      userChallengeId: habit?.userChallenge_id ?? null,
+      challengeTitle: habit ? challengeTitles.get(habit.userChallenge_id.toString()) ?? null : null,
+      date: localDate(log.dateCompleted),
+      note: log.note ?? null,
+      mood: log.mood ?? null,
+      energy: log.energy ?? null,
+      evidenceUrl: log.evidenceUrl ?? null,
+    }];
+  }
+}
+
+/** Maps a record onto the shared CSV columns; whatever doesn't fit goes into `details`. */
+function toCsvRow(section: ExportSection, record: ExportRecord): Partial<Record<(typeof CSV_COLUMNS)[number], unknown>> {
+  const { id, note, mood, energy, evidenceUrl, ...rest } = record;
+  const row: Partial<Record<(typeof CSV_COLUMNS)[number], unknown>> = {
+    type: CSV_TYPES[section],
+    id,
+    note,
+    mood,
+    energy,
+    evidence_url: evidenceUrl,
+  };
+  const take = (key: string) => {
+    const value = rest[key];
+    delete rest[key];
+    return value;
+  };
+
+  switch (section) {
+    case "profile":
+      row.title = take("name");
+      row.date = take("createdAt");
+      break;
+    case "habits":
+      row.title = take("title");
+      row.date = take("createdDate");
+      row.status = take("isArchived") ? "archived" : "active";
+      break;
+    case "habitLogs":
+      row.parent_id = take("habitId");
+      row.title = take("habitTitle");
+      row.date = take("date");
+      row.value = take("value");
+      row.status = take("completed") ? "completed" : "partial";
+      break;
+    case "enrollments":
+      row.parent_id = take("challengeId");
+      row.title = take("challengeTitle");
+      row.date = take("startDate");
+      row.status = take("status");
+      row.value = take("completedDays");
+      break;
+    case "challengeHabits":
+      row.parent_id = take("userChallengeId");
+      row.title = take("title");
+      row.date = take("createdDate");
+      break;
+    case "challengeHabitLogs":
+      row.parent_id = take("habitId");
+      row.title = take("habitTitle");
+      row.date = take("date");
+      row.status = "completed";
+      break;
+  }
+
+  row.details = Object.keys(rest).length > 0 ? JSON.stringify(rest) : null;
+  return row;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  // Text a spreadsheet would run as a formula is prefixed so it stays text
+  const safe = typeof value === "string" && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Folds content lines longer than 75 octets, as RFC 5545 requires. */
+function foldIcsLine(line: string): string {
+  const bytes = Buffer.from(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75
+    if (currentBytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
@@ -0,0 +1,326 @@
+import { Types } from "mongoose";
+import { IUser } from "../models/User";
+import UserHabit from "../models/UserHabit";
+import UserHabitLog from "../models/UserHabitLog";
+import UserChallenge from "../models/UserChallenge";
+import Habit from "../models/Habit";
+import HabitLog from "../models/HabitLog";
+import { DigestKind } from "../models/DigestDelivery";
+import { startOfDayInTZ, DEFAULT_TIMEZONE } from "./timezone";
+import {
+  getHabitSchedule,
+  localDayNumber,
+  dateStrToDayNumber,
+  dayNumberToDateStr,
+  summarizeRange,
+  scheduledStreaks,
+  streakUnit,
+} from "./habitSchedule";
+import { isLogComplete } from "./habitLog";
+import { pausedDaySet } from "./pause";
+import { frozenDaySet } from "./streakFreeze";
+import { MailMessage, appLink } from "./mailer";
+
+/**
+ * Weekly / monthly digests: what happened to the user's personal habits and
+ * challenges over a period of local days, and its rendering as an email. The
+ * numbers follow the analytics endpoints — completion rates count only the
+ * days a schedule expects (paused days excluded), streaks skip paused and
+ * frozen days.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// How many habits are listed as best / needing attention
+const HIGHLIGHT_COUNT = 3;
+
+/** An inclusive range of local day numbers. */
+export interface DigestPeriod {
+  from: number;
+  to: number;
+}
+
+export interface HabitDigest {
+  id: Types.ObjectId;
+  title: string;
+  expected: number;
+  completed: number;
+  completionRate: number;
+  streakUnit: "day" | "week";
+  streakBefore: number;         // at the end of the day before the period
+  streakAfter: number;          // at the end of the period
+}
+
+export interface ChallengeDigest {
+  userChallengeId: Types.ObjectId;
+  title: string;
+  status: string;
+  daysCompleted: number;        // days in the period on which every habit was logged
+  completedDays: number;        // overall, as of now
+  durationDays: number | null;
+  currentStreak: number;
+  livesRemaining: number;
+}
+
+export interface Digest {
+  kind: DigestKind | "custom";
+  from: string;                 // local "YYYY-MM-DD"
+  to: string;
+  expected: number;
+  completed: number;
+  completionRate: number;
+  previousCompletionRate: number | null;  // same-length period right before; null if nothing was expected
+  habits: HabitDigest[];
+  best: HabitDigest[];
+  worst: HabitDigest[];
+  challenges: ChallengeDigest[];
+}
+
+/** The 7 days before `day` — a weekly digest sent on `day`. */
+export function weeklyPeriod(day: number): DigestPeriod {
+  return { from: day - 7, to: day - 1 };
+}
+
+/** The calendar month before the one `day` falls in. */
+export function monthlyPeriod(day: number): DigestPeriod {
+  const [year, month] = dayNumberToDateStr(day).split("-").map(Number);
+  const monthStart = dateStrToDayNumber(`${year}-${String(month).padStart(2, "0")}-01`);
+  const [prevYear, prevMonth] = dayNumberToDateStr(monthStart - 1).split("-").map(Number);
+  return {
+    from: dateStrToDayNumber(`${prevYear}-${String(prevMonth).padStart(2, "0")}-01`),
+    to: monthStart - 1,
+  };
+}
+
+export async function buildDigest(
+  user: IUser,
+  period: DigestPeriod,
+  kind: Digest["kind"]
+): Promise<Digest> {
+  const tz = user.timezone || DEFAULT_TIMEZONE;
+  const length = period.to - period.from + 1;
+  const previous = { from: period.from - length, to: period.from - 1 };
+
+  const { habits, previousTotals } = await buildHabitDigests(user._id, tz, period, previous);
+  const expected = habits.reduce((sum, h) => sum + h.expected, 0);
+  const completed = habits.reduce((sum, h) => sum + h.completed, 0);
+
+  // Only habits that were expected at all are ranked; best and worst never overlap
+  const ranked = habits
+    .filter((h) => h.expected > 0)
+    .sort((a, b) => b.completionRate - a.completionRate || b.completed - a.completed);
+  const best = ranked.slice(0, Math.min(HIGHLIGHT_COUNT, Math.ceil(ranked.length / 2)));
+  const worst = ranked
+    .slice(best.length)
+    .reverse()
+    .filter((h) => h.completionRate < 100)
+    .slice(0, HIGHLIGHT_COUNT);
+
+  return {
+    kind,
+    from: dayNumberToDateStr(period.from),
+    to: dayNumberToDateStr(period.to),
+    expected,
+    completed,
+    completionRate: percentage(completed, expected),
+    previousCompletionRate: previousTotals.expected > 0
+      ? percentage(previousTotals.completed, previousTotals.expected)
+      : null,
+    habits,
+    best,
+    worst,
+    challenges: await buildChallengeDigests(user._id, tz, period),
+  };
+}
+
+/** Whether there is nothing to report (no habit was expected and no challenge ran). */
+export function isEmptyDigest(digest: Digest): boolean {
+  return digest.expected === 0 && digest.challenges.length === 0;
+}
+
+export function renderDigest(digest: Digest, user: IUser): MailMessage {
+  const label = digest.kind === "monthly" ? "month" : digest.kind === "weekly" ? "week" : "period";
+  const title = digest.kind === "custom"
+    ? "Your habit digest"
+    : `Your ${digest.kind} habit digest`;
+  const subject = `${title}: ${digest.completionRate}% done (${digest.from} – ${digest.to})`;
+  const overall = `${digest.completionRate}% of scheduled habits done (${digest.completed} of ${digest.expected})`;
+  const trend = describeTrend(digest, label);
+  const settingsLink = appLink("/settings/digests");
+
+  const habitLine = (h: HabitDigest) =>
+    `${h.title}: ${h.completed}/${h.expected} (${h.completionRate}%), streak ${h.streakBefore} → ${h.streakAfter} ${h.streakUnit}s`;
+  const challengeLine = (c: ChallengeDigest) =>
+    `${c.title}: ${c.daysCompleted} day${c.daysCompleted === 1 ? "" : "s"} completed this ${label}, ` +
+    `${c.completedDays}${c.durationDays ? `/${c.durationDays}` : ""} overall, streak ${c.currentStreak}, ` +
+    `${c.livesRemaining} ${c.livesRemaining === 1 ? "life" : "lives"} left (${c.status})`;
+
+  const text = [
+    `Hi ${user.name},`,
+    "",
+    `${title} for ${digest.from} – ${digest.to}`,
+    "",
+    `Overall: ${overall}.${trend ? ` ${trend}` : ""}`,
+    ...(digest.habits.length > 0 ? ["", "Habits", ...digest.habits.map((h) => `- ${habitLine(h)}`)] : []),
+    ...(digest.best.length > 0 ? ["", `Best: ${digest.best.map((h) => `${h.title} (${h.completionRate}%)`).join(", ")}`] : []),
+    ...(digest.worst.length > 0
+      ? [`Needs attention: ${digest.worst.map((h) => `${h.title} (${h.completionRate}%)`).join(", ")}`]
+      : []),
+    ...(digest.challenges.length > 0 ? ["", "Challenges", ...digest.challenges.map((c) => `- ${challengeLine(c)}`)] : []),
+    "",
+    `Manage your digests: ${settingsLink}`,
+  ].join("\n");
+
+  const list = (items: string[]) => `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`;
+  const html = [
+    `<p>Hi ${escapeHtml(user.name)},</p>`,
+    `<h2>${escapeHtml(title)}</h2>`,
+    `<p>${escapeHtml(`${digest.from} – ${digest.to}`)}</p>`,
+    `<p><strong>${escapeHtml(overall)}</strong>${trend ? ` ${escapeHtml(trend)}` : ""}</p>`,
+    ...(digest.habits.length > 0 ? ["<h3>Habits</h3>", list(digest.habits.map(habitLine))] : []),
+    ...(digest.best.length > 0
+      ? [`<p>Best: ${escapeHtml(digest.best.map((h) => `${h.title} (${h.completionRate}%)`).join(", "))}</p>`]
+      : []),
+    ...(digest.worst.length > 0
+      ? [`<p>Needs attention: ${escapeHtml(digest.worst.map((h) => `${h.title} (${h.completionRate}%)`).join(", "))}</p>`]
+      : []),
+    ...(digest.challenges.length > 0 ? ["<h3>Challenges</h3>", list(digest.challenges.map(challengeLine))] : []),
+    `<p><a href="${escapeHtml(settingsLink)}">Manage your digests</a></p>`,
+  ].join("\n");
+
+  return { to: user.email, subject, text, html };
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+function describeTrend(digest: Digest, label: string): string | null {
+  if (digest.previousCompletionRate === null || digest.expected === 0) return null;
+  const change = digest.completionRate - digest.previousCompletionRate;
+  if (change === 0) return `Same as the previous ${label}.`;
+  return `${change > 0 ? "Up" : "Down"} ${Math.abs(change)} points from the previous ${label}.`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Start of local day number `day` in `tz`. */
+function startOfLocalDay(tz: string, day: number): Date {
+  return startOfDayInTZ(tz, new Date(day * DAY_MS + DAY_MS / 2));
+}
+
+/** Days in `days` up to and including `day`. */
+function upTo(days: Set<number>, day: number): Set<number> {
+  return new Set([...days].filter((d) => d <= day));
+}
+
+async function buildHabitDigests(
+  userId: Types.ObjectId,
+  tz: string,
+  period: DigestPeriod,
+  previous: DigestPeriod
+): Promise<{ habits: HabitDigest[]; previousTotals: { expected: number; completed: number } }> {
+  // Habits created after the period can't have been expected during it
+  const habits = (await UserHabit.find({ user_id: userId, isArchived: false }).sort({ createdAt: 1 }))
+    .filter((habit) => localDayNumber(habit.createdAt, tz) <= period.to);
+
+  const logs = await UserHabitLog.find({
+    userHabit_id: { $in: habits.map((h) => h._id) },
+    dateCompleted: { $lt: startOfLocalDay(tz, period.to + 1) },
+  });
+
+  const previousTotals = { expected: 0, completed: 0 };
+  const digests = habits.map((habit) => {
+    const schedule = getHabitSchedule(habit);
+    const completedDays = new Set(
+      logs
+        .filter((log) => log.userHabit_id.toString() === habit._id.toString() && isLogComplete(habit, log))
+        .map((log) => localDayNumber(log.dateCompleted, tz))
+    );
+    const paused = pausedDaySet(habit.pauses, period.to);
+    const excused = new Set([...paused, ...frozenDaySet(habit.frozenDates)]);
+    const createdDay = localDayNumber(habit.createdAt, tz);
+
+    const { expected, completed } = summarizeRange(
+      schedule, completedDays, Math.max(period.from, createdDay), period.to, paused
+    );
+    if (createdDay <= previous.to) {
+      const before = summarizeRange(schedule, completedDays, Math.max(previous.from, createdDay), previous.to, paused);
+      previousTotals.expected += before.expected;
+      previousTotals.completed += before.completed;
+    }
+
+    const before = upTo(completedDays, period.from - 1);
+    return {
+      id: habit._id,
+      title: habit.title,
+      expected,
+      completed,
+      completionRate: percentage(completed, expected),
+      streakUnit: streakUnit(schedule),
+      streakBefore: scheduledStreaks(schedule, before, period.from - 1, excused).currentStreak,
+      streakAfter: scheduledStreaks(schedule, completedDays, period.to, excused).currentStreak,
+    };
+  });
+
+  return { habits: digests, previousTotals };
+}
+
+/** Enrollments that ran during the period: started by its end and still active or finished within it. */
+async function buildChallengeDigests(userId: Types.ObjectId, tz: string, period: DigestPeriod): Promise<ChallengeDigest[]> {
+  const rangeStart = startOfLocalDay(tz, period.from);
+  const rangeEnd = startOfLocalDay(tz, period.to + 1);
+
+  const enrollments = await UserChallenge.find({
+    userId,
+    startDate: { $lt: rangeEnd },
+    $or: [
+      { status: "active" },
+      { status: { $in: ["completed", "failed"] }, completedOn: { $gte: rangeStart } },
+    ],
+  })
+    .populate("challengeId")
+    .sort({ startDate: 1 });
+
+  return Promise.all(
+    enrollments.map(async (enrollment) => {
+      const challenge = enrollment.challengeId as any;
+      const habitIds = await Habit.find({ userChallenge_id: enrollment._id }).distinct("_id");
+      const logs = await HabitLog.find({
+        habit_id: { $in: habitIds },
+        dateCompleted: { $gte: rangeStart, $lt: rangeEnd },
+      });
+
+      // A day counts once every habit of the enrollment was logged on it
+      const habitsByDay = new Map<number, Set<string>>();
+      for (const log of logs) {
+        const day = localDayNumber(log.dateCompleted, tz);
+        if (!habitsByDay.has(day)) habitsByDay.set(day, new Set());
+        habitsByDay.get(day)!.add(log.habit_id.toString());
+      }
+      const daysCompleted = habitIds.length === 0
+        ? 0
+        : [...habitsByDay.values()].filter((ids) => ids.size >= habitIds.length).length;
+
+      return {
+        userChallengeId: enrollment._id,
+        title: challenge?.title ?? "Deleted challenge",
+        status: enrollment.status,
+        daysCompleted,
+        completedDays: enrollment.progress.completedDays,
+        durationDays: challenge?.durationDays ?? null,
+        currentStreak: enrollment.progress.currentStreak,
+        livesRemaining: enrollment.livesRemaining,
+      };
+    })
+  );
+}
@@ -0,0 +1,104 @@
+import { Types } from "mongoose";
+import { IChallenge } from "../models/Challenge";
+import UserChallenge, { IUserChallenge } from "../models/UserChallenge";
+import Team from "../models/Team";
+import Habit from "../models/Habit";
+import { ICohort } from "../models/Cohort";
+import { getChallengeRules } from "./challengeProgress";
+
+export interface EnrollmentLinks {
+  teamId?: Types.ObjectId;
+  cohort?: ICohort;
+  restartOf?: IUserChallenge;   // clone this attempt's habits instead of the template
+}
+
+/**
+ * Creates an active enrollment with the challenge's starting lives and its
+ * template habits, so every way of joining (by id, by invite code, …) starts
+ * participants off identically. Team members pass their team's id; cohort
+ * participants take the cohort's schedule instead of their own start date.
+ *
+ * Earlier attempts are never touched: the new enrollment is numbered after
+ * them and linked to the most recent one (or to `restartOf`).
+ */
+export async function createEnrollment(
+  userId: Types.ObjectId,
+  challenge: IChallenge,
+  startDate: Date = new Date(),
+  links: EnrollmentLinks = {}
+) {
+  const previousAttempt = links.restartOf
+    ?? (await UserChallenge.findOne({ userId, challengeId: challenge._id }).sort({ createdAt: -1 }));
+  const attempts = await UserChallenge.countDocuments({ userId, challengeId: challenge._id });
+
+  const userChallenge = await UserChallenge.create({
+    userId,
+    challengeId: challenge._id,
+    teamId: links.teamId,
+    cohortId: links.cohort?._id,
+    attempt: attempts + 1,
+    previousAttemptId: previousAttempt?._id,
+    startDate: links.cohort?.startDate ?? startDate,
+    endDate: links.cohort?.endDate,
+    status: "active",
+    progress: {
+      completedDays: 0,
+      currentStreak: 0,
+    },
+    livesRemaining: getChallengeRules(challenge).startingLives,
+    missedDays: 0,
+  });
+
+  // Restarts carry the previous attempt's habits over (without their logs); fresh joins
+  // get the challenge's template habits so every participant starts with the same set
+  const sources = links.restartOf
+    ? await Habit.find({ userChallenge_id: links.restartOf._id }).sort({ createdAt: 1 })
+    : (challenge.templateHabits ?? []).map((template) => ({
+        title: template.title,
+        templateHabitId: template._id,
+        isRequired: template.required,
+      }));
+
+  const habits = await Habit.insertMany(
+    sources.map((source) => ({
+      user_id: userId,
+      challenge_id: challenge._id,
+      userChallenge_id: userChallenge._id,
+      title: source.title,
+      templateHabitId: source.templateHabitId,
+      isRequired: source.isRequired,
+    }))
+  );
+
+  return { userChallenge, habits };
+}
+
+/**
+ * Ends an active enrollment, at the user's request or when a manager removes
+ * them (`removedBy`, which also ends their access to a private challenge). Its
+ * habits and logs stay in place as part of the user's history; a team member is
+ * also dropped from the team.
+ */
+export async function abandonEnrollment(userChallenge: IUserChallenge, removedBy?: Types.ObjectId): Promise<void> {
+  const now = new Date();
+  await UserChallenge.updateOne(
+    { _id: userChallenge._id, status: "active" },
+    { status: "abandoned", abandonedAt: now, ...(removedBy && { removedAt: now, removedBy }) }
+  );
+
+  if (userChallenge.teamId) {
+    await removeTeamMember(userChallenge.teamId, userChallenge.userId);
+  }
+}
+
+/** Drops a user from a team, handing ownership on and deleting the team once it is empty. */
+async function removeTeamMember(teamId: Types.ObjectId, userId: Types.ObjectId): Promise<void> {
+  const team = await Team.findByIdAndUpdate(teamId, { $pull: { memberIds: userId } }, { new: true });
+  if (!team) return;
+
+  if (team.memberIds.length === 0) {
+    await Team.findByIdAndDelete(team._id);
+  } else if (team.ownerId.toString() === userId.toString()) {
+    await Team.updateOne({ _id: team._id }, { ownerId: team.memberIds[0] });
+  }
+}
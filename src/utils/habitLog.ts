@@ -0,0 +1,105 @@
+import { LogDetailsInput, UpdateHabitLogInput } from "../schemas/habitLog.schema";
+import { startOfDayInTZ, endOfDayInTZ } from "./timezone";
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from "./pagination";
+import { isValidDateStr } from "./habitSchedule";
+
+/** Detail fields shared by HabitLog and UserHabitLog. */
+export const LOG_DETAIL_FIELDS = ["note", "mood", "energy", "evidenceUrl"] as const;
+
+/** Picks the detail fields that were actually provided, for create / $set. */
+export function pickLogDetails(input: LogDetailsInput): LogDetailsInput {
+  const details: Record<string, unknown> = {};
+  for (const field of LOG_DETAIL_FIELDS) {
+    if (input[field] !== undefined) details[field] = input[field];
+  }
+  return details as LogDetailsInput;
+}
+
+/** Turns a PATCH body into an update: values are $set, nulls are $unset. */
+export function buildLogDetailsUpdate(input: UpdateHabitLogInput) {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, 1> = {};
+  for (const field of LOG_DETAIL_FIELDS) {
+    if (input[field] === null) $unset[field] = 1;
+    else if (input[field] !== undefined) $set[field] = input[field];
+  }
+  return { $set, $unset };
+}
+
+export function formatLogDetails(log: any) {
+  return {
+    note: log.note ?? null,
+    mood: log.mood ?? null,
+    energy: log.energy ?? null,
+    evidenceUrl: log.evidenceUrl ?? null,
+  };
+}
+
+/** A personal habit's day counts as done when its log reaches the target (any log for yes/no habits). */
+export function isLogComplete(habit: { target?: number | null }, log: { value?: number }): boolean {
+  return !habit.target || (log.value ?? 1) >= habit.target;
+}
+
+export interface LogHistoryQuery {
+  filter: Record<string, unknown>;    // extra conditions to merge into the log query
+  direction: 1 | -1;
+  limit: number;
+}
+
+/**
+ * Parses ?from=&to= (inclusive local "YYYY-MM-DD"), ?order=asc|desc (default desc),
+ * ?limit= and ?cursor= for the log history endpoints. Returns an error message
+ * instead when the query is malformed.
+ */
+export function parseLogHistoryQuery(
+  query: Record<string, unknown>,
+  tz: string
+): LogHistoryQuery | { error: string } {
+  const { from, to, order, cursor } = query;
+  const dateFilter: Record<string, unknown> = {};
+
+  for (const [key, value] of [["from", from], ["to", to]] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !isValidDateStr(value)) {
+      return { error: `${key} must be a valid date in YYYY-MM-DD format` };
+    }
+  }
+
+  if (typeof from === "string") {
+    dateFilter.$gte = startOfDayInTZ(tz, new Date(from + "T12:00:00.000Z"));
+  }
+  if (typeof to === "string") {
+    dateFilter.$lte = endOfDayInTZ(tz, new Date(to + "T12:00:00.000Z"));
+  }
+
+  if (order !== undefined && order !== "asc" && order !== "desc") {
+    return { error: "order must be 'asc' or 'desc'" };
+  }
+  const direction = order === "asc" ? 1 : -1;
+
+  const range: Record<string, unknown> = Object.keys(dateFilter).length ? { dateCompleted: dateFilter } : {};
+
+  if (cursor !== undefined) {
+    const decoded = typeof cursor === "string" ? decodeCursor(cursor) : null;
+    if (!decoded) return { error: "Invalid cursor" };
+    return {
+      filter: { ...range, ...cursorFilter("dateCompleted", decoded, direction) },
+      direction,
+      limit: parseLimit(query.limit),
+    };
+  }
+
+  return { filter: range, direction, limit: parseLimit(query.limit) };
+}
+
+/** Splits a `limit + 1` result into the page and the cursor for the next one. */
+export function paginateLogs<T extends { _id: any; dateCompleted: Date }>(docs: T[], limit: number) {
+  const hasMore = docs.length > limit;
+  const page = hasMore ? docs.slice(0, limit) : docs;
+  const last = page[page.length - 1];
+  return {
+    page,
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(last.dateCompleted, last._id) : null,
+  };
+}
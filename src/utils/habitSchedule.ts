@@ -0,0 +1,217 @@
+import { toLocalDateStr } from "./timezone";
+
+/**
+ * Schedule-aware helpers for personal habits.
+ *
+ * Everything here works on "day numbers" — whole days since 1970-01-01 of the
+ * user's LOCAL calendar date — so weekday / interval arithmetic is plain integer
+ * math and unaffected by DST. Convert with localDayNumber() at the boundary.
+ * Weeks run Sunday–Saturday, matching the weekly breakdown.
+ *
+ * Paused days (see utils/pause.ts) are passed in as a set of day numbers and are
+ * left out entirely: never expected, never breaking a streak.
+ */
+
+export type HabitScheduleType = "daily" | "weekdays" | "weekly" | "interval";
+
+export interface HabitSchedule {
+  type: HabitScheduleType;
+  weekdays?: number[];      // "weekdays": 0 = Sunday … 6 = Saturday
+  timesPerWeek?: number;    // "weekly": quota, any days of the week
+  everyNDays?: number;      // "interval": due every N days …
+  anchorDate?: string;      // … counting from this local "YYYY-MM-DD"
+}
+
+export const DAILY_SCHEDULE: HabitSchedule = { type: "daily" };
+
+/** A habit's stored schedule as a plain object, treating legacy habits without one as daily. */
+export function getHabitSchedule(habit: { schedule?: any }): HabitSchedule {
+  const schedule = habit.schedule;
+  if (!schedule?.type) return DAILY_SCHEDULE;
+  return {
+    type: schedule.type,
+    weekdays: schedule.weekdays ? [...schedule.weekdays] : undefined,
+    timesPerWeek: schedule.timesPerWeek,
+    everyNDays: schedule.everyNDays,
+    anchorDate: schedule.anchorDate,
+  };
+}
+
+const NO_PAUSES: ReadonlySet<number> = new Set();
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/** Local calendar day of `date` in `tz`, as a day number. */
+export function localDayNumber(date: Date, tz: string): number {
+  return dateStrToDayNumber(toLocalDateStr(date, tz));
+}
+
+export function dateStrToDayNumber(dateStr: string): number {
+  return Math.floor(Date.parse(dateStr + "T00:00:00.000Z") / DAY_MS);
+}
+
+export function dayNumberToDateStr(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Whether `value` is a real "YYYY-MM-DD" calendar day (no 2026-13-01 or 2026-02-31). */
+export function isValidDateStr(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const day = dateStrToDayNumber(value);
+  return Number.isFinite(day) && dayNumberToDateStr(day) === value;
+}
+
+/** 0 = Sunday … 6 = Saturday (day 0 was a Thursday). */
+export function weekdayOf(day: number): number {
+  return (day + 4) % 7;
+}
+
+/** Day number of the Sunday starting the week `day` falls in. */
+export function weekStartOf(day: number): number {
+  return day - weekdayOf(day);
+}
+
+/** Streaks for quota schedules are counted in weeks, all others in scheduled days. */
+export function streakUnit(schedule: HabitSchedule): "day" | "week" {
+  return schedule.type === "weekly" ? "week" : "day";
+}
+
+/** Whether the habit is due on a given day. Quota habits may be done on any day. */
+export function isScheduledDay(schedule: HabitSchedule, day: number): boolean {
+  switch (schedule.type) {
+    case "weekdays":
+      return (schedule.weekdays ?? []).includes(weekdayOf(day));
+    case "interval": {
+      const every = schedule.everyNDays ?? 1;
+      const anchor = schedule.anchorDate ? dateStrToDayNumber(schedule.anchorDate) : day;
+      return day >= anchor && (day - anchor) % every === 0;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether the habit still "needs doing" today: due today for day-based schedules,
+ * or quota not yet met this week (or already done today) for weekly quotas.
+ */
+export function isDueToday(
+  schedule: HabitSchedule,
+  completedDays: Set<number>,
+  today: number,
+  paused: ReadonlySet<number> = NO_PAUSES
+): boolean {
+  if (paused.has(today)) return false;
+  if (schedule.type !== "weekly") return isScheduledDay(schedule, today);
+  if (completedDays.has(today)) return true;
+  return countInRange(completedDays, weekStartOf(today), today) < (schedule.timesPerWeek ?? 1);
+}
+
+function countInRange(days: ReadonlySet<number>, from: number, to: number): number {
+  let count = 0;
+  for (let d = from; d <= to; d++) if (days.has(d)) count++;
+  return count;
+}
+
+/** A weekly quota shrinks in proportion to the days of the week that were paused. */
+function proratedQuota(quota: number, activeDays: number): number {
+  return Math.ceil((quota * activeDays) / 7);
+}
+
+/**
+ * Expected vs. completed occurrences in the inclusive day range [from, to].
+ *
+ * Day-based schedules expect every scheduled day; completions on off days are
+ * ignored. Weekly quotas expect `timesPerWeek` per week, pro-rated for weeks the
+ * range only partly covers (or had paused), and cap each week's completions at
+ * the quota so one busy week can't make up for an empty one.
+ */
+export function summarizeRange(
+  schedule: HabitSchedule,
+  completedDays: Set<number>,
+  from: number,
+  to: number,
+  paused: ReadonlySet<number> = NO_PAUSES
+): { expected: number; completed: number } {
+  if (schedule.type !== "weekly") {
+    let expected = 0;
+    let completed = 0;
+    for (let d = from; d <= to; d++) {
+      if (!isScheduledDay(schedule, d) || paused.has(d)) continue;
+      expected++;
+      if (completedDays.has(d)) completed++;
+    }
+    return { expected, completed };
+  }
+
+  const activeDays = to - from + 1 - countInRange(paused, from, to);
+  if (activeDays <= 0) return { expected: 0, completed: 0 };
+
+  const quota = schedule.timesPerWeek ?? 1;
+  let completed = 0;
+  for (let week = weekStartOf(from); week <= to; week += 7) {
+    const weekFrom = Math.max(week, from);
+    const weekTo = Math.min(week + 6, to);
+    completed += Math.min(countInRange(completedDays, weekFrom, weekTo), quota);
+  }
+  const expected = Math.max(1, Math.round((quota * activeDays) / 7));
+  return { expected, completed: Math.min(completed, expected) };
+}
+
+/** Percentage of expected occurrences completed in [from, to] (0 when nothing was expected). */
+export function completionRate(
+  schedule: HabitSchedule,
+  completedDays: Set<number>,
+  from: number,
+  to: number,
+  paused: ReadonlySet<number> = NO_PAUSES
+): number {
+  const { expected, completed } = summarizeRange(schedule, completedDays, from, to, paused);
+  return expected > 0 ? Math.round((completed / expected) * 100) : 0;
+}
+
+/**
+ * Current and longest streak, in scheduled days (or weeks for quotas).
+ * Today / the current week never breaks a streak — it simply isn't over yet.
+ */
+export function scheduledStreaks(
+  schedule: HabitSchedule,
+  completedDays: Set<number>,
+  today: number,
+  paused: ReadonlySet<number> = NO_PAUSES
+): { currentStreak: number; longestStreak: number } {
+  if (completedDays.size === 0) return { currentStreak: 0, longestStreak: 0 };
+
+  const firstDay = Math.min(...completedDays);
+
+  // Each "slot" is a scheduled day or a week; met = done / quota reached.
+  // Paused days (and fully paused weeks) are skipped, so they neither extend nor break a streak.
+  const slots: boolean[] = [];
+  if (schedule.type === "weekly") {
+    const quota = schedule.timesPerWeek ?? 1;
+    for (let week = weekStartOf(firstDay); week <= today; week += 7) {
+      const activeDays = 7 - countInRange(paused, week, week + 6);
+      if (activeDays === 0) continue;
+      const done = countInRange(completedDays, week, Math.min(week + 6, today));
+      slots.push(done >= proratedQuota(quota, activeDays));
+    }
+  } else {
+    for (let d = firstDay; d <= today; d++) {
+      if (isScheduledDay(schedule, d) && !paused.has(d)) slots.push(completedDays.has(d));
+    }
+  }
+
+  // Today's slot (the current week, or today if due) is still open — ignore it unless already met
+  const lastSlotOpen =
+    schedule.type === "weekly" || (isScheduledDay(schedule, today) && !paused.has(today));
+  if (lastSlotOpen && slots.length > 0 && !slots[slots.length - 1]) slots.pop();
+
+  let longestStreak = 0;
+  let run = 0;
+  for (const met of slots) {
+    run = met ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  return { currentStreak: run, longestStreak };
+}
@@ -0,0 +1,67 @@
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Pluggable outgoing mail. Controllers call sendMail(); which transport actually
+ * delivers is chosen once from MAIL_TRANSPORT ("console" | "file") or swapped at
+ * runtime with setMailTransport() (e.g. an in-memory transport in tests, or an
+ * SMTP/API transport in production).
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/** Prints messages to stdout — the default for local development. */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/** Appends each message as one JSON line to a file, so tests/dev tools can read links back. */
+export class FileTransport implements MailTransport {
+  constructor(private filePath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const entry = { ...message, sentAt: new Date().toISOString() };
+    await fs.appendFile(this.filePath, JSON.stringify(entry) + "\n");
+  }
+}
+
+let transport: MailTransport | null = null;
+
+function createDefaultTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === "file") {
+    return new FileTransport(process.env.MAIL_FILE_PATH || "tmp/mail.log");
+  }
+  return new ConsoleTransport();
+}
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) transport = createDefaultTransport();
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+/** Builds an absolute link into the frontend app for emails. */
+export function appLink(pathname: string, params: Record<string, string> = {}): string {
+  const base = (process.env.APP_URL || "http://localhost:5173").replace(/\/$/, "");
+  const query = new URLSearchParams(params).toString();
+  return `${base}${pathname}${query ? `?${query}` : ""}`;
+}
@@ -0,0 +1,124 @@
+import { Types } from "mongoose";
+import Notification, { INotification, NotificationType } from "../models/Notification";
+import User from "../models/User";
+import UserChallenge from "../models/UserChallenge";
+import { appLink } from "./mailer";
+
+/**
+ * Producers for the in-app notification center. Each event that is worth
+ * telling the user about goes through createNotification(), which drops types
+ * the user muted and events already notified (same dedupeKey). notify() is the
+ * fire-and-forget variant for side effects of other actions: a failure there is
+ * logged and never fails the action itself.
+ */
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body: string;
+  link?: string;
+  data?: Record<string, unknown>;
+  dedupeKey?: string;               // scoped per user; a second notification with the same key is dropped
+}
+
+/** Someone who should hear about an enrollment's outcome, with their own enrollment for the link. */
+export interface ChallengeRecipient {
+  userId: Types.ObjectId;
+  userChallengeId: Types.ObjectId;
+}
+
+/** Creates the notification unless the type is muted or it was already sent; returns null then. */
+export async function createNotification(
+  userId: Types.ObjectId,
+  input: NotificationInput
+): Promise<INotification | null> {
+  const user = await User.findById(userId).select("mutedNotificationTypes");
+  if (!user || (user.mutedNotificationTypes ?? []).includes(input.type)) return null;
+
+  try {
+    return await Notification.create({ userId, ...input });
+  } catch (error: any) {
+    if (error?.code === 11000) return null; // already notified
+    throw error;
+  }
+}
+
+export async function notify(userId: Types.ObjectId, input: NotificationInput): Promise<void> {
+  try {
+    await createNotification(userId, input);
+  } catch (error) {
+    console.error(`Notify error (${input.type}):`, error);
+  }
+}
+
+/** The members of a team, each with their own enrollment. */
+export async function getTeamRecipients(teamId: Types.ObjectId): Promise<ChallengeRecipient[]> {
+  const enrollments = await UserChallenge.find({ teamId, status: { $ne: "abandoned" } }).select("userId");
+  return enrollments.map((e) => ({ userId: e.userId, userChallengeId: e._id }));
+}
+
+/**
+ * Notifies about the lives lost (and a resulting failure) in a missed-day
+ * update — see getMissedDayUpdate(). `livesBefore` is the count the update was
+ * computed from. Safe to call from every place that persists such an update.
+ */
+export async function notifyMissedDayUpdate(
+  recipients: ChallengeRecipient[],
+  challengeTitle: string,
+  livesBefore: number,
+  update: Record<string, unknown>
+): Promise<void> {
+  const livesRemaining = update.livesRemaining as number;
+  const missedDays = update.missedDays as number;
+
+  if (livesRemaining < livesBefore && livesRemaining > 0) {
+    const lost = livesBefore - livesRemaining;
+    for (const { userId, userChallengeId } of recipients) {
+      await notify(userId, {
+        type: "lives_lost",
+        title: `${lost === 1 ? "A life" : `${lost} lives`} lost in ${challengeTitle}`,
+        body: `A missed day cost ${lost === 1 ? "a life" : `${lost} lives`} — ${livesRemaining} left.`,
+        link: appLink(`/my-challenges/${userChallengeId}`),
+        data: { userChallengeId, livesRemaining, missedDays },
+        dedupeKey: `lives_lost:${userChallengeId}:${missedDays}`,
+      });
+    }
+  }
+
+  if (update.status === "failed") {
+    await notifyChallengeOutcome(recipients, challengeTitle, "failed");
+  }
+}
+
+export async function notifyChallengeOutcome(
+  recipients: ChallengeRecipient[],
+  challengeTitle: string,
+  outcome: "completed" | "failed"
+): Promise<void> {
+  for (const { userId, userChallengeId } of recipients) {
+    await notify(userId, {
+      type: outcome === "completed" ? "challenge_completed" : "challenge_failed",
+      title: outcome === "completed" ? `You completed ${challengeTitle}!` : `${challengeTitle} has ended`,
+      body: outcome === "completed"
+        ? "Congratulations — the challenge is complete."
+        : "No lives are left, so this attempt is over. You can restart it any time.",
+      link: appLink(`/my-challenges/${userChallengeId}`),
+      data: { userChallengeId },
+      dedupeKey: `challenge_${outcome}:${userChallengeId}`,
+    });
+  }
+}
+
+export function formatNotification(notification: INotification) {
+  return {
+    id: notification._id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    link: notification.link ?? null,
+    data: notification.data ?? {},
+    read: !!notification.readAt,
+    readAt: notification.readAt ?? null,
+    createdAt: notification.createdAt,
+  };
+}
@@ -0,0 +1,129 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+/**
+ * Requests to user-supplied URLs (webhooks). postToPublicUrl() resolves the
+ * host as part of opening the socket and refuses unless every address it maps
+ * to is public, so a URL can't be pointed at the server itself, the internal
+ * network or the cloud metadata endpoint — and since the socket connects to the
+ * address that was checked, a DNS answer that changes in between can't either.
+ * Redirects are never followed, so a public host can't bounce the request
+ * somewhere private.
+ */
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges
+const blocked = new net.BlockList();
+blocked.addSubnet("0.0.0.0", 8, "ipv4");         // "this" network
+blocked.addSubnet("10.0.0.0", 8, "ipv4");        // RFC 1918
+blocked.addSubnet("100.64.0.0", 10, "ipv4");     // carrier-grade NAT
+blocked.addSubnet("127.0.0.0", 8, "ipv4");       // loopback
+blocked.addSubnet("169.254.0.0", 16, "ipv4");    // link-local, cloud metadata
+blocked.addSubnet("172.16.0.0", 12, "ipv4");     // RFC 1918
+blocked.addSubnet("192.168.0.0", 16, "ipv4");    // RFC 1918
+blocked.addSubnet("224.0.0.0", 4, "ipv4");       // multicast
+blocked.addSubnet("240.0.0.0", 4, "ipv4");       // reserved, broadcast
+blocked.addSubnet("::", 96, "ipv6");             // unspecified, IPv4-compatible
+blocked.addAddress("::1", "ipv6");               // loopback
+blocked.addSubnet("64:ff9b::", 96, "ipv6");      // NAT64
+blocked.addSubnet("fc00::", 7, "ipv6");          // unique local
+blocked.addSubnet("fe80::", 10, "ipv6");         // link-local
+blocked.addSubnet("ff00::", 8, "ipv6");          // multicast
+
+/** Thrown when a URL's host is (or resolves to) an address we won't send to. */
+export class OutboundUrlError extends Error {
+  constructor() {
+    super("Endpoint address is not allowed");
+    this.name = "OutboundUrlError";
+  }
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blocked.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Static check for validation: an http(s) URL whose host isn't localhost or a
+ * literal private address. Hostnames are checked again when postToPublicUrl() connects.
+ */
+export function isAllowedOutboundUrl(raw: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+
+  const host = stripBrackets(url.hostname).toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) return false;
+  return net.isIP(host) === 0 || isPublicAddress(host);
+}
+
+/**
+ * POSTs `body` to the URL and resolves with the response status (a 3xx is
+ * returned as is, not followed). Rejects with OutboundUrlError for addresses
+ * that aren't public, or with the network error / timeout otherwise.
+ */
+export function postToPublicUrl(
+  raw: string,
+  { headers, body, timeoutMs }: { headers: Record<string, string>; body: string; timeoutMs: number }
+): Promise<number> {
+  if (!isAllowedOutboundUrl(raw)) return Promise.reject(new OutboundUrlError());
+
+  const url = new URL(raw);
+  const transport = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = transport.request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: publicLookup,
+    });
+    // A deadline for the whole exchange up to the response, not just an idle socket
+    const timer = setTimeout(() => req.destroy(new OutboundTimeoutError()), timeoutMs);
+    req.on("response", (res) => {
+      clearTimeout(timer);
+      res.resume(); // the body isn't needed, but has to be drained to free the socket
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    req.end(body);
+  });
+}
+
+/** A short, safe description of a failed request — raw network errors can leak internal details. */
+export function describeOutboundError(err: unknown): string {
+  if (err instanceof OutboundUrlError) return err.message;
+  if (err instanceof OutboundTimeoutError) return "Endpoint timed out";
+  return "Could not connect to endpoint";
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+class OutboundTimeoutError extends Error {}
+
+/**
+ * dns.lookup for the request's socket: fails the connection unless every
+ * address is public, and hands the socket only those checked addresses.
+ * (Literal IP hosts skip lookup and are covered by isAllowedOutboundUrl().)
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    if (addresses.length === 0 || !addresses.every((a) => isPublicAddress(a.address))) {
+      return callback(new OutboundUrlError(), "", 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function stripBrackets(hostname: string): string {
+  return hostname.startsWith("[") && hostname.endsWith("]") ? hostname.slice(1, -1) : hostname;
+}
@@ -0,0 +1,51 @@
+import { Types } from "mongoose";
+
+/**
+ * Pagination helpers. Feeds use cursor pagination over (sortDate, _id) — the
+ * cursor is opaque to clients, base64url of "<ISO date>|<ObjectId>" for the last
+ * item of the previous page. Ranked lists use plain ?page=&limit=.
+ */
+
+export const DEFAULT_PAGE_LIMIT = 30;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface Cursor {
+  date: Date;
+  id: Types.ObjectId;
+}
+
+export function encodeCursor(date: Date, id: Types.ObjectId): string {
+  return Buffer.from(`${date.toISOString()}|${id.toString()}`).toString("base64url");
+}
+
+/** Returns null for anything that isn't a cursor we issued. */
+export function decodeCursor(raw: string): Cursor | null {
+  const [iso, id] = Buffer.from(raw, "base64url").toString().split("|");
+  const date = new Date(iso);
+  if (!iso || isNaN(date.getTime()) || !id || !Types.ObjectId.isValid(id)) return null;
+  return { date, id: new Types.ObjectId(id) };
+}
+
+/** Parses ?limit=, clamped to [1, MAX_PAGE_LIMIT]. */
+export function parseLimit(raw: unknown, fallback: number = DEFAULT_PAGE_LIMIT): number {
+  const n = typeof raw === "string" ? parseInt(raw, 10) : NaN;
+  if (isNaN(n)) return fallback;
+  return Math.min(Math.max(n, 1), MAX_PAGE_LIMIT);
+}
+
+/** Parses ?page= (1-based), defaulting to the first page. */
+export function parsePage(raw: unknown): number {
+  const n = typeof raw === "string" ? parseInt(raw, 10) : NaN;
+  return isNaN(n) || n < 1 ? 1 : n;
+}
+
+/** Mongo filter selecting items strictly after `cursor` in the given sort direction. */
+export function cursorFilter(field: string, cursor: Cursor, direction: 1 | -1) {
+  const op = direction === 1 ? "$gt" : "$lt";
+  return {
+    $or: [
+      { [field]: { [op]: cursor.date } },
+      { [field]: cursor.date, _id: { [op]: cursor.id } },
+    ],
+  };
+}
@@ -0,0 +1,144 @@
+import { IPausePeriod } from "../models/PausePeriod";
+import { dateStrToDayNumber, dayNumberToDateStr } from "./habitSchedule";
+
+export interface ResolvedPause {
+  pause: IPausePeriod;
+  days: number[];               // paused day numbers so far (never beyond today)
+  open: boolean;                // still running today, or scheduled to start later
+}
+
+/**
+ * Works out which days each pause actually covers as of `today`, oldest first.
+ * Open-ended pauses run through today; once `maxDays` paused days have been used
+ * up, any further days (and the rest of a running pause) no longer count.
+ */
+export function resolvePauses(
+  pauses: IPausePeriod[] | undefined,
+  today: number,
+  maxDays: number | null = null
+): ResolvedPause[] {
+  let remaining = maxDays ?? Infinity;
+
+  return [...(pauses ?? [])]
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .map((pause) => {
+      const start = dateStrToDayNumber(pause.startDate);
+      const plannedEnd = pause.endDate ? dateStrToDayNumber(pause.endDate) : Infinity;
+      const end = Math.min(plannedEnd, today);
+
+      const days: number[] = [];
+      for (let d = start; d <= end && remaining > 0; d++, remaining--) days.push(d);
+
+      const open = plannedEnd >= today && (start > today ? remaining > 0 : days[days.length - 1] === today);
+      return { pause, days, open };
+    });
+}
+
+/** All paused day numbers as of `today`, after applying the cap. */
+export function pausedDaySet(
+  pauses: IPausePeriod[] | undefined,
+  today: number,
+  maxDays: number | null = null
+): Set<number> {
+  return new Set(resolvePauses(pauses, today, maxDays).flatMap((r) => r.days));
+}
+
+/** Number of paused days in the inclusive range [from, to]. */
+export function countPausedDays(paused: Set<number>, from: number, to: number): number {
+  let count = 0;
+  for (let d = from; d <= to; d++) if (paused.has(d)) count++;
+  return count;
+}
+
+/** Whether [from, to] contains a day that isn't paused (an empty range doesn't). */
+export function hasUnpausedDay(paused: Set<number>, from: number, to: number): boolean {
+  return to - from + 1 > countPausedDays(paused, from, to);
+}
+
+export function formatPause(resolved: ResolvedPause) {
+  const { pause, days, open } = resolved;
+  return {
+    id: pause._id,
+    startDate: pause.startDate,
+    endDate: pause.endDate ?? null,
+    // Last day actually paused so far (earlier than endDate if the cap cut it short)
+    lastPausedDate: days.length > 0 ? dayNumberToDateStr(days[days.length - 1]) : null,
+    pausedDays: days.length,
+    reason: pause.reason ?? null,
+    active: open,
+    createdAt: pause.createdAt,
+  };
+}
+
+/** The pause that is running today or scheduled to start, if any. */
+export function findOpenPause(
+  pauses: IPausePeriod[] | undefined,
+  today: number,
+  maxDays: number | null = null
+): ResolvedPause | null {
+  return resolvePauses(pauses, today, maxDays).find((r) => r.open) ?? null;
+}
+
+/**
+ * Validates a new pause and works out its dates. It starts today — or tomorrow
+ * when today is already logged, since a logged day can't also be a paused one —
+ * and runs until `until` (inclusive) or until resumed.
+ */
+export function planPause(
+  pauses: IPausePeriod[] | undefined,
+  today: number,
+  options: { until?: string; loggedToday: boolean; maxDays: number | null }
+): { startDate: string; endDate?: string } | { error: string } {
+  if (findOpenPause(pauses, today, options.maxDays)) {
+    return { error: "Already paused" };
+  }
+
+  const start = options.loggedToday ? today + 1 : today;
+  const end = options.until ? dateStrToDayNumber(options.until) : null;
+  if (end !== null && end < start) {
+    return { error: `The pause must end on or after ${dayNumberToDateStr(start)}` };
+  }
+
+  if (options.maxDays !== null) {
+    const remaining = options.maxDays - pausedDaySet(pauses, today, options.maxDays).size;
+    if (remaining <= 0) {
+      return { error: "No paused days left" };
+    }
+    if (end !== null && end - start + 1 > remaining) {
+      return { error: `Only ${remaining} paused day${remaining === 1 ? "" : "s"} left` };
+    }
+  }
+
+  return { startDate: dayNumberToDateStr(start), ...(end !== null && { endDate: dayNumberToDateStr(end) }) };
+}
+
+/** Pause state and history for API responses (newest first). */
+export function buildPauseSummary(
+  pauses: IPausePeriod[] | undefined,
+  today: number,
+  maxDays: number | null = null
+) {
+  const resolved = resolvePauses(pauses, today, maxDays);
+  const used = resolved.reduce((sum, r) => sum + r.days.length, 0);
+  const open = resolved.find((r) => r.open);
+
+  return {
+    paused: !!open && open.days[open.days.length - 1] === today,
+    activePause: open ? formatPause(open) : null,
+    pausedDaysUsed: used,
+    maxPausedDays: maxDays,
+    pausedDaysRemaining: maxDays === null ? null : Math.max(0, maxDays - used),
+    history: resolved.map(formatPause).reverse(),
+  };
+}
+
+/**
+ * Update that ends `pause` (matched with "pauses._id" in the filter) so today is
+ * a normal day again. A pause that hasn't covered any past day yet is removed.
+ */
+export function resumePauseUpdate(pause: IPausePeriod, today: number): Record<string, unknown> {
+  if (dateStrToDayNumber(pause.startDate) >= today) {
+    return { $pull: { pauses: { _id: pause._id } } };
+  }
+  return { $set: { "pauses.$.endDate": dayNumberToDateStr(today - 1) } };
+}
@@ -0,0 +1,112 @@
+import { Types } from "mongoose";
+import { ReminderChannelName } from "../models/User";
+import { ReminderTargetType } from "../models/ReminderDelivery";
+import { sendMail } from "./mailer";
+import { createNotification } from "./notifications";
+import { postToPublicUrl, describeOutboundError } from "./outboundUrl";
+
+/**
+ * Pluggable reminder delivery, in the same spirit as the mailer: the dispatcher
+ * hands each reminder to the channels the user picked, looked up by name here.
+ * Any channel can be swapped with setReminderChannel() — e.g. a
+ * RecordingChannel in tests, which keeps messages in memory instead of sending.
+ */
+
+export interface ReminderMessage {
+  userId: Types.ObjectId;
+  email: string;
+  name: string;
+  webhookUrl?: string;
+  targetType: ReminderTargetType;
+  targetId: Types.ObjectId;
+  date: string;             // local "YYYY-MM-DD"
+  time: string;             // local "HH:mm"
+  title: string;
+  body: string;
+  link: string;
+}
+
+export interface ReminderChannel {
+  send(message: ReminderMessage): Promise<void>;
+}
+
+/** Puts the reminder in the user's notification center. */
+export class InAppChannel implements ReminderChannel {
+  async send(message: ReminderMessage): Promise<void> {
+    await createNotification(message.userId, {
+      type: "reminder",
+      title: message.title,
+      body: message.body,
+      link: message.link,
+      data: { targetType: message.targetType, targetId: message.targetId },
+      dedupeKey: `reminder:${message.targetType}:${message.targetId}:${message.date}:${message.time}`,
+    });
+  }
+}
+
+export class EmailChannel implements ReminderChannel {
+  async send(message: ReminderMessage): Promise<void> {
+    await sendMail({
+      to: message.email,
+      subject: message.title,
+      text: `Hi ${message.name},\n\n${message.body}\n\n${message.link}`,
+    });
+  }
+}
+
+/**
+ * POSTs the reminder as JSON to the user's webhook URL, under the same
+ * public-address guard as outgoing webhooks. Failures are reported generically
+ * since they end up in the user's delivery log.
+ */
+export class WebhookChannel implements ReminderChannel {
+  constructor(private timeoutMs: number = 5000) {}
+
+  async send(message: ReminderMessage): Promise<void> {
+    if (!message.webhookUrl) throw new Error("No webhook URL configured");
+
+    let status: number;
+    try {
+      status = await postToPublicUrl(message.webhookUrl, {
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: "reminder",
+          targetType: message.targetType,
+          targetId: message.targetId,
+          date: message.date,
+          time: message.time,
+          title: message.title,
+          body: message.body,
+          link: message.link,
+        }),
+        timeoutMs: this.timeoutMs,
+      });
+    } catch (error) {
+      throw new Error(describeOutboundError(error));
+    }
+    if (status < 200 || status >= 300) throw new Error(`Webhook responded with ${status}`);
+  }
+}
+
+/** Local stand-in: records every message instead of delivering it. */
+export class RecordingChannel implements ReminderChannel {
+  readonly sent: ReminderMessage[] = [];
+
+  async send(message: ReminderMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+const channels: Record<ReminderChannelName, ReminderChannel> = {
+  in_app: new InAppChannel(),
+  email: new EmailChannel(),
+  webhook: new WebhookChannel(),
+};
+
+export function setReminderChannel(name: ReminderChannelName, channel: ReminderChannel): void {
+  channels[name] = channel;
+}
+
+export function getReminderChannel(name: ReminderChannelName): ReminderChannel {
+  return channels[name];
+}
@@ -0,0 +1,92 @@
+import { Request } from "express";
+import { Types } from "mongoose";
+import Session, { ISession } from "../models/Session";
+import { generateAccessToken } from "../middleware/auth";
+import { generateRandomToken, hashToken } from "./tokens";
+
+// Refresh tokens live for 30 days unless overridden; every use rotates them
+const REFRESH_TOKEN_TTL_MS =
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  session: ISession;
+}
+
+/** Starts a new login session and returns its first access / refresh token pair. */
+export async function createSession(userId: Types.ObjectId, req: Request): Promise<IssuedTokens> {
+  const refreshToken = generateRandomToken(48);
+
+  const session = await Session.create({
+    userId,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: req.get("user-agent"),
+    ip: req.ip,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  return {
+    accessToken: generateAccessToken(userId.toString(), session._id.toString()),
+    refreshToken,
+    session,
+  };
+}
+
+/**
+ * Exchanges a refresh token for a new pair. Returns null if the token is unknown,
+ * expired or revoked. Presenting an already-rotated token means it was copied, so
+ * the whole session is revoked to lock out whoever holds the other copy.
+ */
+export async function rotateSession(refreshToken: string, req: Request): Promise<IssuedTokens | null> {
+  const tokenHash = hashToken(refreshToken);
+  const now = new Date();
+
+  const session = await Session.findOne({
+    refreshTokenHash: tokenHash,
+    revokedAt: null,
+    expiresAt: { $gt: now },
+  });
+
+  if (!session) {
+    await Session.updateOne(
+      { previousTokenHash: tokenHash, revokedAt: null },
+      { $set: { revokedAt: now } }
+    );
+    return null;
+  }
+
+  const nextToken = generateRandomToken(48);
+
+  // Conditional on the old hash so two concurrent refreshes can't both succeed
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: tokenHash },
+    {
+      $set: {
+        refreshTokenHash: hashToken(nextToken),
+        previousTokenHash: tokenHash,
+        lastUsedAt: now,
+        userAgent: req.get("user-agent") ?? session.userAgent,
+        ip: req.ip ?? session.ip,
+        expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+      },
+    },
+    { new: true }
+  );
+  if (!rotated) return null;
+
+  return {
+    accessToken: generateAccessToken(rotated.userId.toString(), rotated._id.toString()),
+    refreshToken: nextToken,
+    session: rotated,
+  };
+}
+
+/** Revokes every active session of a user, optionally keeping one (the caller's). */
+export async function revokeUserSessions(userId: Types.ObjectId, exceptSessionId?: string): Promise<number> {
+  const filter: any = { userId, revokedAt: null };
+  if (exceptSessionId) filter._id = { $ne: exceptSessionId };
+
+  const result = await Session.updateMany(filter, { $set: { revokedAt: new Date() } });
+  return result.modifiedCount;
+}
@@ -0,0 +1,252 @@
+import { Types } from "mongoose";
+import User from "../models/User";
+import UserHabit, { IUserHabit } from "../models/UserHabit";
+import UserChallenge, { IUserChallenge } from "../models/UserChallenge";
+import { IChallenge } from "../models/Challenge";
+import StreakFreezeEvent, { StreakFreezeScope } from "../models/StreakFreezeEvent";
+import { getChallengeRules } from "./challengeProgress";
+import {
+  HabitSchedule,
+  isScheduledDay,
+  streakUnit,
+  localDayNumber,
+  dateStrToDayNumber,
+  dayNumberToDateStr,
+} from "./habitSchedule";
+import { pausedDaySet } from "./pause";
+
+/**
+ * Streak freezes: every `earnEvery` consecutive completed days in a habit or
+ * challenge earn the user one freeze (up to `maxBalance` unspent). When a streak
+ * would otherwise break, freezes are spent to cover the missed days — one freeze
+ * per day, and only if there are enough to cover the whole gap. Covered days are
+ * stored on the habit / enrollment (frozenDates) and, like paused days, neither
+ * break nor extend a streak; in a challenge they also cost no life.
+ *
+ * Only writes (logging, the missed-day sweep) spend freezes; views ask for a
+ * `preview`, which reports what the balance would cover without touching it.
+ * Logging a covered day after all releases it and refunds its freeze.
+ */
+export function getStreakFreezeSettings() {
+  return {
+    earnEvery: Number(process.env.STREAK_FREEZE_EARN_EVERY) || 7,
+    maxBalance: process.env.STREAK_FREEZE_MAX_BALANCE !== undefined
+      ? Number(process.env.STREAK_FREEZE_MAX_BALANCE)
+      : 2,
+  };
+}
+
+export function frozenDaySet(frozenDates: string[] | undefined): Set<number> {
+  return new Set((frozenDates ?? []).map(dateStrToDayNumber));
+}
+
+/**
+ * Awards a freeze when `streak` — the run ending on `date` — has just reached a
+ * multiple of the configured run. Idempotent per habit / enrollment and day.
+ * Returns whether a freeze was added.
+ */
+export async function awardStreakFreeze(
+  userId: Types.ObjectId,
+  scope: StreakFreezeScope,
+  targetId: Types.ObjectId,
+  date: string,
+  streak: number
+): Promise<boolean> {
+  const { earnEvery, maxBalance } = getStreakFreezeSettings();
+  if (streak <= 0 || streak % earnEvery !== 0) return false;
+
+  const event = await createEvent({ userId, type: "earned", scope, targetId, date, streak });
+  if (!event) return false;
+
+  // At the cap the run simply doesn't earn anything — drop the ledger entry again
+  const user = await User.findOneAndUpdate(
+    { _id: userId, streakFreezes: { $lt: maxBalance } },
+    { $inc: { streakFreezes: 1 } }
+  );
+  if (!user) {
+    await StreakFreezeEvent.deleteOne({ _id: event._id });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Covers a personal habit's missed scheduled days since its last completed (or
+ * covered) day, if the user has enough freezes. Weekly-quota habits count streaks
+ * in weeks and aren't covered. Returns the habit's covered days.
+ */
+export async function applyHabitStreakFreezes(
+  habit: IUserHabit,
+  schedule: HabitSchedule,
+  completedDays: Set<number>,
+  paused: ReadonlySet<number>,
+  tz: string,
+  { preview = false }: { preview?: boolean } = {}
+): Promise<Set<number>> {
+  const frozen = frozenDaySet(habit.frozenDates);
+  if (streakUnit(schedule) !== "day") return frozen;
+
+  const today = localDayNumber(new Date(), tz);
+  const lastMet = Math.max(-Infinity, ...[...completedDays, ...frozen].filter((d) => d < today));
+  if (!Number.isFinite(lastMet)) return frozen;
+
+  const missed: number[] = [];
+  for (let d = lastMet + 1; d < today; d++) {
+    if (isScheduledDay(schedule, d) && !paused.has(d)) missed.push(d);
+  }
+
+  if (preview) {
+    if (await canAfford(habit.user_id, missed)) missed.forEach((d) => frozen.add(d));
+    return frozen;
+  }
+
+  const covered = await spendFreezes(habit.user_id, "habit", habit._id, missed);
+  if (covered.length > 0) {
+    await UserHabit.updateOne({ _id: habit._id }, { $addToSet: { frozenDates: { $each: covered } } });
+    covered.forEach((date) => frozen.add(dateStrToDayNumber(date)));
+  }
+  return frozen;
+}
+
+/**
+ * Covers an individual enrollment's missed days since its last completed (or
+ * covered) day, so they cost no lives. Updates `userChallenge.frozenDates` in
+ * place for the progress calculation that follows (with `preview`, only there).
+ * Team enrollments share their lives and are never covered.
+ */
+export async function applyChallengeStreakFreezes(
+  userChallenge: IUserChallenge,
+  challenge: Partial<IChallenge>,
+  tz: string,
+  now: Date = new Date(),
+  { preview = false }: { preview?: boolean } = {}
+): Promise<void> {
+  if (userChallenge.status !== "active" || userChallenge.teamId) return;
+
+  const today = localDayNumber(now, tz);
+  const startDay = localDayNumber(userChallenge.startDate, tz);
+  const frozen = frozenDaySet(userChallenge.frozenDates);
+  const paused = pausedDaySet(userChallenge.pauses, today, getChallengeRules(challenge).maxPausedDays);
+
+  const lastCompleted = userChallenge.progress.lastCompletedDate
+    ? localDayNumber(new Date(userChallenge.progress.lastCompletedDate), tz)
+    : startDay - 1;
+  const lastMet = Math.max(lastCompleted, ...[...frozen].filter((d) => d < today));
+
+  const missed: number[] = [];
+  for (let d = Math.max(lastMet + 1, startDay); d < today; d++) {
+    if (!paused.has(d)) missed.push(d);
+  }
+
+  if (preview) {
+    if (await canAfford(userChallenge.userId, missed)) {
+      userChallenge.frozenDates = [...(userChallenge.frozenDates ?? []), ...missed.map(dayNumberToDateStr)];
+    }
+    return;
+  }
+
+  const covered = await spendFreezes(userChallenge.userId, "challenge", userChallenge._id, missed);
+  if (covered.length > 0) {
+    await UserChallenge.updateOne(
+      { _id: userChallenge._id },
+      { $addToSet: { frozenDates: { $each: covered } } }
+    );
+    userChallenge.frozenDates = [...(userChallenge.frozenDates ?? []), ...covered];
+  }
+}
+
+/**
+ * Uncovers a day that was logged after a freeze covered it: the day leaves
+ * frozenDates and its freeze goes back to the user. Returns whether one was refunded.
+ */
+export async function releaseFrozenDay(
+  userId: Types.ObjectId,
+  scope: StreakFreezeScope,
+  targetId: Types.ObjectId,
+  date: string
+): Promise<boolean> {
+  const filter = { _id: targetId, frozenDates: date };
+  const update = { $pull: { frozenDates: date } };
+  const result = scope === "habit"
+    ? await UserHabit.updateOne(filter, update)
+    : await UserChallenge.updateOne(filter, update);
+  if (result.modifiedCount === 0) return false; // not covered, or released by a concurrent request
+
+  // Dropping the ledger entry also lets the day be covered again if it's unlogged later
+  await StreakFreezeEvent.deleteOne({ userId, type: "consumed", scope, targetId, date });
+  await User.updateOne({ _id: userId }, { $inc: { streakFreezes: 1 } });
+  return true;
+}
+
+/** Balance and recent earn / spend history for GET /api/auth/me. */
+export async function getStreakFreezeSummary(userId: Types.ObjectId, balance: number) {
+  const { earnEvery, maxBalance } = getStreakFreezeSettings();
+  const events = await StreakFreezeEvent.find({ userId }).sort({ createdAt: -1 }).limit(20);
+
+  return {
+    balance,
+    maxBalance,
+    earnEvery,
+    history: events.map((event) => ({
+      type: event.type,
+      scope: event.scope,
+      targetId: event.targetId,
+      date: event.date,
+      ...(event.streak !== undefined && { streak: event.streak }),
+      createdAt: event.createdAt,
+    })),
+  };
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Spends one freeze per missed day — all of them or none, since a partly covered
+ * gap still breaks the streak. Returns the covered days as "YYYY-MM-DD".
+ */
+async function spendFreezes(
+  userId: Types.ObjectId,
+  scope: StreakFreezeScope,
+  targetId: Types.ObjectId,
+  missed: number[]
+): Promise<string[]> {
+  if (missed.length === 0) return [];
+
+  const user = await User.findOneAndUpdate(
+    { _id: userId, streakFreezes: { $gte: missed.length } },
+    { $inc: { streakFreezes: -missed.length } }
+  );
+  if (!user) return [];
+
+  const dates = missed.map(dayNumberToDateStr);
+  for (const date of dates) {
+    // A day that was already covered (concurrent request) is refunded
+    const event = await createEvent({ userId, type: "consumed", scope, targetId, date });
+    if (!event) await User.updateOne({ _id: userId }, { $inc: { streakFreezes: 1 } });
+  }
+  return dates;
+}
+
+/** Whether the user's balance covers the whole gap (see spendFreezes()). */
+async function canAfford(userId: Types.ObjectId, missed: number[]): Promise<boolean> {
+  if (missed.length === 0) return false;
+  const user = await User.findById(userId).select("streakFreezes");
+  return (user?.streakFreezes ?? 0) >= missed.length;
+}
+
+/** Inserts a ledger entry, or returns null if the same entry already exists. */
+async function createEvent(fields: {
+  userId: Types.ObjectId;
+  type: "earned" | "consumed";
+  scope: StreakFreezeScope;
+  targetId: Types.ObjectId;
+  date: string;
+  streak?: number;
+}) {
+  try {
+    return await StreakFreezeEvent.create(fields);
+  } catch (error: any) {
+    if (error?.code === 11000) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,133 @@
+import { Types } from "mongoose";
+import Team, { ITeam } from "../models/Team";
+import UserChallenge from "../models/UserChallenge";
+import Habit from "../models/Habit";
+import HabitLog from "../models/HabitLog";
+import { IChallenge } from "../models/Challenge";
+import { getMissedDayUpdate, getDayCompletedUpdate } from "./challengeProgress";
+import { startOfDayInTZ, DEFAULT_TIMEZONE } from "./timezone";
+import { getTeamRecipients, notifyMissedDayUpdate } from "./notifications";
+import { emitChallengeOutcome } from "./webhooks";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const MAX_TEAM_SIZE = 10;
+
+export interface TeamMemberStatus {
+  userId: Types.ObjectId;
+  name: string | null;
+  avatar: string | null;
+  userChallengeId: Types.ObjectId;
+  habitsTotal: number;
+  habitsCompleted: number;
+  completed: boolean;
+}
+
+/** Start of a local calendar day ("YYYY-MM-DD") in `tz`. */
+function startOfLocalDate(tz: string, dateStr: string): Date {
+  return startOfDayInTZ(tz, new Date(dateStr + "T12:00:00.000Z"));
+}
+
+/** Persists a team update and mirrors a final outcome onto every member's enrollment. */
+export async function applyTeamUpdate(team: ITeam, update: Record<string, unknown>): Promise<ITeam> {
+  // Conditional on "active" so a concurrent completion / failure is never overwritten
+  const updated = await Team.findOneAndUpdate({ _id: team._id, status: "active" }, update, { new: true });
+  if (!updated) return (await Team.findById(team._id)) ?? team;
+
+  if (updated.status !== "active") {
+    await UserChallenge.updateMany(
+      { teamId: team._id, status: "active" },
+      { status: updated.status, completedOn: updated.completedOn }
+    );
+  }
+  return updated;
+}
+
+/** Team counterpart of the per-enrollment missed-day check — lives come out of the shared pool. */
+export async function refreshTeamMissedDays(
+  team: ITeam,
+  challenge: Partial<IChallenge>,
+  now: Date = new Date()
+): Promise<ITeam> {
+  const update = getMissedDayUpdate(team, challenge, team.timezone || DEFAULT_TIMEZONE, now);
+  if (!update) return team;
+
+  const updated = await applyTeamUpdate(team, update);
+  if (updated.livesRemaining === update.livesRemaining) {
+    const recipients = await getTeamRecipients(team._id);
+    await notifyMissedDayUpdate(recipients, challenge.title ?? "your challenge", team.livesRemaining, update);
+    if (update.status === "failed") {
+      await emitChallengeOutcome(recipients, challenge, "failed");
+    }
+  }
+  return updated;
+}
+
+/**
+ * Whether each member has completed all of their habits on the local calendar
+ * day `dateStr`. Members may live in different timezones, so each one is checked
+ * against that date in their own timezone.
+ */
+export async function getTeamMemberStatuses(team: ITeam, dateStr: string): Promise<TeamMemberStatus[]> {
+  // Members who left keep their enrollment (as "abandoned") but no longer count
+  const enrollments = await UserChallenge.find({ teamId: team._id, status: { $ne: "abandoned" } })
+    .populate("userId", "name avatar timezone")
+    .sort({ createdAt: 1 });
+
+  return Promise.all(
+    enrollments.map(async (enrollment) => {
+      const user = enrollment.userId as any;
+      const tz = user?.timezone || DEFAULT_TIMEZONE;
+      const dayStart = startOfLocalDate(tz, dateStr);
+
+      const habitIds = await Habit.find({ userChallenge_id: enrollment._id }).distinct("_id");
+      const loggedHabitIds = await HabitLog.find({
+        habit_id: { $in: habitIds },
+        dateCompleted: { $gte: dayStart, $lt: new Date(dayStart.getTime() + DAY_MS) },
+      }).distinct("habit_id");
+
+      return {
+        userId: user?._id ?? enrollment.userId,
+        name: user?.name ?? null,
+        avatar: user?.avatar ?? null,
+        userChallengeId: enrollment._id,
+        habitsTotal: habitIds.length,
+        habitsCompleted: loggedHabitIds.length,
+        completed: habitIds.length > 0 && loggedHabitIds.length >= habitIds.length,
+      };
+    })
+  );
+}
+
+/**
+ * Called after a member completes a day. Once every member has completed
+ * `dateStr`, the team's shared streak advances (at most once per day).
+ */
+export async function evaluateTeamDay(
+  team: ITeam,
+  challenge: Partial<IChallenge> & { durationDays: number },
+  dateStr: string
+) {
+  const tz = team.timezone || DEFAULT_TIMEZONE;
+  const statuses = await getTeamMemberStatuses(team, dateStr);
+
+  if (team.status !== "active" || !statuses.every((s) => s.completed)) {
+    return { team, teamDayCompleted: false, challengeCompleted: false, challengeFailed: false };
+  }
+
+  const day = startOfLocalDate(tz, dateStr);
+  const lastCompleted = team.progress.lastCompletedDate;
+  if (lastCompleted && startOfDayInTZ(tz, new Date(lastCompleted)).getTime() === day.getTime()) {
+    return { team, teamDayCompleted: true, challengeCompleted: false, challengeFailed: false };
+  }
+
+  const result = getDayCompletedUpdate(team, challenge, day, tz);
+  const updated = await applyTeamUpdate(team, result.updateData);
+
+  return {
+    team: updated,
+    teamDayCompleted: true,
+    challengeCompleted: result.challengeCompleted,
+    challengeFailed: result.challengeFailed,
+  };
+}
@@ -18,6 +18,16 @@ export function toLocalDateStr(date: Date, timezone: string): string {
   return new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(date);
 }
 
+/** Returns "HH:mm" (24-hour) in the user's local timezone for a given UTC instant. */
+export function toLocalTimeStr(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(date);
+}
+
 /**
  * Returns the UTC Date that corresponds to 00:00:00.000 in the user's timezone
  * on the calendar day that `date` falls in.
@@ -0,0 +1,21 @@
+import crypto from "crypto";
+
+/** Returns a URL-safe random token suitable for refresh / reset / verification links. */
+export function generateRandomToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+/** Tokens are stored hashed so a database leak can't be replayed. */
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// No 0/O or 1/I/L — invite codes get read aloud and typed by hand
+const INVITE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+/** Returns a short human-friendly code like "K7Q2-MX9P". */
+export function generateInviteCode(): string {
+  const bytes = crypto.randomBytes(8);
+  const chars = [...bytes].map((b) => INVITE_ALPHABET[b % INVITE_ALPHABET.length]);
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
@@ -0,0 +1,130 @@
+import UserHabitLog, { IUserHabitLog } from "../models/UserHabitLog";
+import { startOfDayInTZ, toLocalDateStr } from "./timezone";
+import {
+  HabitSchedule,
+  DAILY_SCHEDULE,
+  getHabitSchedule,
+  localDayNumber,
+  dateStrToDayNumber,
+  scheduledStreaks,
+  streakUnit,
+} from "./habitSchedule";
+import { isLogComplete } from "./habitLog";
+import { pausedDaySet } from "./pause";
+import { applyHabitStreakFreezes, awardStreakFreeze, releaseFrozenDay } from "./streakFreeze";
+import { evaluateAchievements } from "./achievements";
+import { awardXp } from "./xp";
+import { emitWebhookEvent } from "./webhooks";
+
+/**
+ * Streaks and log follow-ups for personal habits, shared by the habit endpoints
+ * and routines (which log the habits behind their steps).
+ */
+
+/**
+ * Compute streak info from a sorted (asc) list of completion dates, relative to `tz`.
+ * Only days the habit's schedule expects count — an off day (or a paused one) never
+ * breaks a streak.
+ */
+export function computeStreaks(
+  dates: Date[],
+  tz: string,
+  schedule: HabitSchedule = DAILY_SCHEDULE,
+  paused: ReadonlySet<number> = new Set()
+): {
+  currentStreak: number;
+  longestStreak: number;
+  streakUnit: "day" | "week";
+  lastCompletedDate: Date | null;
+} {
+  const unit = streakUnit(schedule);
+  if (dates.length === 0) {
+    return { currentStreak: 0, longestStreak: 0, streakUnit: unit, lastCompletedDate: null };
+  }
+
+  // Deduplicate to one entry per LOCAL calendar day in the user's timezone
+  // (critical: toDay() uses UTC midnight which maps IST-midnight logs to the wrong UTC date)
+  const completedDays = toCompletedDays(dates, tz);
+  const today = localDayNumber(new Date(), tz);
+
+  const { currentStreak, longestStreak } = scheduledStreaks(schedule, completedDays, today, paused);
+  const lastCompletedDate = startOfDayInTZ(tz, dates[dates.length - 1]);
+
+  return { currentStreak, longestStreak, streakUnit: unit, lastCompletedDate };
+}
+
+/** Set of local day numbers on which the habit was completed. */
+export function toCompletedDays(dates: Date[], tz: string): Set<number> {
+  return new Set(dates.map((d) => localDayNumber(d, tz)));
+}
+
+/** The habit's paused local day numbers up to today (personal habits have no cap). */
+export function getPausedDays(habit: any, tz: string): Set<number> {
+  return pausedDaySet(habit.pauses, localDayNumber(new Date(), tz));
+}
+
+/**
+ * Days left out of the habit's streak for a view: paused days plus missed days
+ * covered by a streak freeze, including a fresh gap the user's freezes would
+ * cover (they're only spent once the habit is logged again).
+ */
+export async function getStreakExcusedDays(
+  habit: any,
+  schedule: HabitSchedule,
+  dates: Date[],
+  paused: Set<number>,
+  tz: string
+): Promise<{ excused: Set<number>; frozen: Set<number> }> {
+  const frozen = await applyHabitStreakFreezes(habit, schedule, toCompletedDays(dates, tz), paused, tz, {
+    preview: true,
+  });
+  return { excused: new Set([...paused, ...frozen]), frozen };
+}
+
+/**
+ * Follow-ups to a log: once the day counts as done, its XP, freezes spent on the
+ * gap before it (or refunded, when the day itself had been covered) and — when
+ * it extends the habit's daily streak to a full run — a streak freeze; then any
+ * achievements and the habit.logged webhook.
+ */
+export async function recordHabitProgress(habit: any, tz: string, log: IUserHabitLog, completed: boolean) {
+  const schedule = getHabitSchedule(habit);
+  const date = toLocalDateStr(log.dateCompleted, tz);
+  let streak: number | undefined;
+  let xpEarned = 0;
+
+  if (completed) {
+    xpEarned = await awardXp(habit.user_id, "habit_logged", { logId: log._id, date, userHabitId: habit._id });
+
+    const logs = await UserHabitLog.find({ userHabit_id: habit._id }).sort({ dateCompleted: 1 });
+    const dates = logs.filter((l) => isLogComplete(habit, l)).map((l) => l.dateCompleted);
+    const paused = getPausedDays(habit, tz);
+    const frozen = await applyHabitStreakFreezes(habit, schedule, toCompletedDays(dates, tz), paused, tz);
+    if (frozen.delete(dateStrToDayNumber(date))) {
+      await releaseFrozenDay(habit.user_id, "habit", habit._id, date);
+    }
+
+    // Streaks of weekly-quota habits are counted in weeks, so only daily streaks count here
+    if (streakUnit(schedule) === "day") {
+      const excused = new Set([...paused, ...frozen]);
+      streak = computeStreaks(dates, tz, schedule, excused).currentStreak;
+
+      // The award goes by the run ending on the logged day, so backfilling an older day
+      // can't cash in the current streak again under a different date
+      const completedDays = toCompletedDays(dates, tz);
+      const runAtDate = scheduledStreaks(schedule, completedDays, dateStrToDayNumber(date), excused).currentStreak;
+      await awardStreakFreeze(habit.user_id, "habit", habit._id, date, runAtDate);
+    }
+  }
+
+  const achievementsEarned = await evaluateAchievements(habit.user_id, tz, {
+    trigger: "log",
+    streak,
+    userHabitId: habit._id,
+  });
+  await emitWebhookEvent(habit.user_id, "habit.logged", {
+    habit: { id: habit._id, type: "personal", title: habit.title },
+    log: { id: log._id, date, value: log.value ?? null, completed },
+  });
+  return { xpEarned, achievementsEarned };
+}
@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import WebhookEndpoint, { IWebhookEndpoint, WebhookEvent } from "../models/WebhookEndpoint";
+import WebhookDelivery, { IWebhookDelivery } from "../models/WebhookDelivery";
+import { generateRandomToken } from "./tokens";
+import { ChallengeRecipient } from "./notifications";
+import { postToPublicUrl, describeOutboundError } from "./outboundUrl";
+
+/**
+ * Outgoing webhooks. emitWebhookEvent() queues one delivery per subscribed
+ * endpoint; the webhookDelivery job sends them and retries failures with
+ * exponential backoff, so delivery is at-least-once (receivers should dedupe on
+ * the payload's `id`). Every request carries
+ *
+ *   X-Webhook-Event:     the event name
+ *   X-Webhook-Delivery:  the delivery id (same as the payload's `id`)
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ *
+ * keyed with the endpoint's secret. Endpoints must resolve to public addresses
+ * (see postToPublicUrl()) and redirects are not followed.
+ */
+
+export interface WebhookSettings {
+  maxAttempts: number;      // attempts before a delivery is marked failed
+  retryBaseMs: number;      // delay after the first failure; doubles on every further one
+  timeoutMs: number;        // per request
+}
+
+export function getWebhookSettings(): WebhookSettings {
+  return {
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6,
+    retryBaseMs: Number(process.env.WEBHOOK_RETRY_BASE_MS) || 1000 * 30,
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 5000,
+  };
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${generateRandomToken(24)}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Queues `event` for every active endpoint of the user subscribed to it.
+ * Best-effort like notify(): a failure is logged and never fails the action.
+ */
+export async function emitWebhookEvent(
+  userId: Types.ObjectId,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const endpoints = await WebhookEndpoint.find({ userId, active: true, events: event });
+    for (const endpoint of endpoints) {
+      await queueDelivery(endpoint, event, data);
+    }
+  } catch (error) {
+    console.error(`EmitWebhookEvent error (${event}):`, error);
+  }
+}
+
+/** challenge.completed / challenge.failed for each enrollment that reached the outcome. */
+export async function emitChallengeOutcome(
+  recipients: ChallengeRecipient[],
+  challenge: { _id?: Types.ObjectId; title?: string },
+  outcome: "completed" | "failed"
+): Promise<void> {
+  for (const { userId, userChallengeId } of recipients) {
+    await emitWebhookEvent(userId, outcome === "completed" ? "challenge.completed" : "challenge.failed", {
+      userChallengeId,
+      challengeId: challenge._id ?? null,
+      challengeTitle: challenge.title ?? null,
+    });
+  }
+}
+
+/**
+ * Creates a pending delivery, due immediately. With `schedule: false` the job
+ * leaves it alone, for callers that attempt it themselves.
+ */
+export async function queueDelivery(
+  endpoint: IWebhookEndpoint,
+  event: WebhookEvent | "ping",
+  data: Record<string, unknown>,
+  { schedule = true }: { schedule?: boolean } = {}
+): Promise<IWebhookDelivery> {
+  const _id = new Types.ObjectId();
+  const createdAt = new Date();
+  return WebhookDelivery.create({
+    _id,
+    endpointId: endpoint._id,
+    userId: endpoint.userId,
+    event,
+    payload: { id: _id, event, createdAt: createdAt.toISOString(), data },
+    status: "pending",
+    nextAttemptAt: schedule ? createdAt : undefined,
+    createdAt,
+  });
+}
+
+/**
+ * Sends one attempt of a delivery and records the outcome. A failed attempt is
+ * rescheduled with backoff until maxAttempts (or straight away marked failed
+ * when `retry` is false, as for test fires).
+ */
+export async function attemptDelivery(
+  delivery: IWebhookDelivery,
+  endpoint: IWebhookEndpoint,
+  { retry = true }: { retry?: boolean } = {}
+): Promise<IWebhookDelivery> {
+  const { maxAttempts, retryBaseMs, timeoutMs } = getWebhookSettings();
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+  try {
+    responseStatus = await postToPublicUrl(endpoint.url, {
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery._id.toString(),
+        "X-Webhook-Signature": `t=${timestamp},v1=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+      },
+      body,
+      timeoutMs,
+    });
+    if (responseStatus < 200 || responseStatus >= 300) error = `Endpoint responded with ${responseStatus}`;
+  } catch (err) {
+    // The log is shown to the user, so it only gets a generic reason
+    error = describeOutboundError(err);
+  }
+
+  const now = new Date();
+  const $set: Record<string, unknown> = { attempts, lastAttemptAt: now };
+  const $unset: Record<string, 1> = {};
+  if (responseStatus !== undefined) $set.responseStatus = responseStatus;
+  else $unset.responseStatus = 1;
+
+  if (!error) {
+    $set.status = "succeeded";
+    $unset.nextAttemptAt = 1;
+    $unset.error = 1;
+  } else if (retry && attempts < maxAttempts) {
+    $set.error = error;
+    $set.nextAttemptAt = new Date(now.getTime() + retryBaseMs * 2 ** (attempts - 1));
+  } else {
+    $set.error = error;
+    $set.status = "failed";
+    $unset.nextAttemptAt = 1;
+  }
+
+  return (await WebhookDelivery.findByIdAndUpdate(delivery._id, { $set, $unset }, { new: true }))!;
+}
@@ -0,0 +1,121 @@
+import { Types } from "mongoose";
+import User from "../models/User";
+import XpEvent, { IXpEvent, XpReason } from "../models/XpEvent";
+
+/**
+ * XP awarded per event, overridable through the environment. Levels follow from
+ * the total: reaching level L+1 from L takes `levelBase * L` more XP, so level 2
+ * is at 100, level 3 at 300, level 4 at 600, … with the default base.
+ * An award set to 0 turns it off; the level base is at least 1.
+ */
+export function getXpTable() {
+  return {
+    habit_logged: xpSetting("XP_HABIT_LOGGED", 10, 0),
+    challenge_day_completed: xpSetting("XP_CHALLENGE_DAY_COMPLETED", 25, 0),
+    challenge_completed: xpSetting("XP_CHALLENGE_COMPLETED", 200, 0),
+    levelBase: xpSetting("XP_LEVEL_BASE", 100, 1),
+  };
+}
+
+/** An env override clamped to `min`; unset or non-numeric values keep the default. */
+function xpSetting(name: string, fallback: number, min: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? Math.max(min, value) : fallback;
+}
+
+/** Total XP needed to reach `level`. */
+function xpForLevel(level: number, base: number): number {
+  return (base * level * (level - 1)) / 2;
+}
+
+/** Level and progress towards the next one for an XP total. */
+export function levelForXp(xp: number) {
+  const { levelBase } = getXpTable();
+  const total = Math.max(0, xp);
+
+  let level = 1;
+  while (total >= xpForLevel(level + 1, levelBase)) level++;
+
+  const levelStartXp = xpForLevel(level, levelBase);
+  const nextLevelXp = xpForLevel(level + 1, levelBase);
+  return {
+    level,
+    xp: total,
+    levelStartXp,
+    nextLevelXp,
+    progress: Math.round(((total - levelStartXp) / (nextLevelXp - levelStartXp)) * 100),
+  };
+}
+
+export interface XpAwardSource {
+  logId: Types.ObjectId;
+  date: string;
+  userChallengeId?: Types.ObjectId;
+  userHabitId?: Types.ObjectId;
+}
+
+/**
+ * Awards the table's XP for `reason`, tied to the log that earned it. A log
+ * earns each kind of award once, so repeated calls are no-ops. Returns the XP added.
+ */
+export async function awardXp(
+  userId: Types.ObjectId,
+  reason: Exclude<XpReason, "reversal">,
+  source: XpAwardSource
+): Promise<number> {
+  const amount = getXpTable()[reason];
+  if (amount <= 0) return 0;
+
+  try {
+    await XpEvent.create({ userId, amount, reason, ...source });
+  } catch (error: any) {
+    if (error?.code === 11000) return 0;
+    throw error;
+  }
+  await User.updateOne({ _id: userId }, { $inc: { xp: amount } });
+  return amount;
+}
+
+/** Reverses every award the log earned (when it is unlogged). Returns the XP removed. */
+export async function reverseXpForLog(userId: Types.ObjectId, logId: Types.ObjectId): Promise<number> {
+  const awards = await XpEvent.find({ userId, logId, reversedAt: { $exists: false } });
+
+  let removed = 0;
+  for (const award of awards) {
+    // Claim the award first so concurrent unlogs can't reverse it twice
+    const claimed = await XpEvent.findOneAndUpdate(
+      { _id: award._id, reversedAt: { $exists: false } },
+      { reversedAt: new Date() }
+    );
+    if (!claimed) continue;
+
+    await XpEvent.create({
+      userId,
+      amount: -award.amount,
+      reason: "reversal",
+      userChallengeId: award.userChallengeId,
+      userHabitId: award.userHabitId,
+      date: award.date,
+      reversesId: award._id,
+    });
+    await User.updateOne({ _id: userId }, { $inc: { xp: -award.amount } });
+    removed += award.amount;
+  }
+  return removed;
+}
+
+export function formatXpEvent(event: IXpEvent) {
+  return {
+    id: event._id,
+    amount: event.amount,
+    reason: event.reason,
+    date: event.date,
+    userChallengeId: event.userChallengeId ?? null,
+    userHabitId: event.userHabitId ?? null,
+    reversesId: event.reversesId ?? null,
+    reversedAt: event.reversedAt ?? null,
+    createdAt: event.createdAt,
+  };
+}